@@ -0,0 +1,170 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { AuditLog, createAuditEntry, formatAuditEntry } from "./audit-log";
+import { GitHubNotification, Logger, ThreadDecision } from "./types";
+
+const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
+
+function thread(id: string): GitHubNotification {
+  return {
+    id,
+    unread: true,
+    reason: "review_requested",
+    updated_at: "2024-01-01T00:00:00Z",
+    last_read_at: null,
+    subject: {
+      title: "Bump lodash",
+      url: `https://api.github.com/repos/org/repo/pulls/${id}`,
+      latest_comment_url: null,
+      type: "PullRequest",
+    },
+    repository: {
+      id: 1,
+      name: "repo",
+      full_name: "org/repo",
+      owner: { login: "org", id: 1 },
+    },
+    url: `https://api.github.com/notifications/threads/${id}`,
+    subscription_url: `https://api.github.com/notifications/threads/${id}/subscription`,
+  };
+}
+
+const merged: ThreadDecision = {
+  action: "done",
+  rule: "merged-closed-pr",
+  threadAction: "done",
+  reasons: ["PR 1 is merged and user is not directly involved"],
+  verdicts: [
+    {
+      rule: "reason",
+      action: "none",
+      reasons: ["Reason review_requested is not listed"],
+    },
+    {
+      rule: "merged-closed-pr",
+      action: "done",
+      reasons: ["PR 1 is merged and user is not directly involved"],
+    },
+  ],
+};
+
+const kept: ThreadDecision = {
+  action: "keep",
+  rule: null,
+  threadAction: null,
+  reasons: ["No rule matched"],
+  verdicts: [],
+};
+
+describe("AuditLog", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "audit-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("appends one JSON line per decision, creating the folder", async () => {
+    const filePath = path.join(dir, "logs", "audit.jsonl");
+    const auditLog = new AuditLog(logger, filePath);
+
+    await auditLog.append(
+      createAuditEntry(thread("1"), merged, { runId: "run-1", dryRun: false })
+    );
+    await auditLog.append(
+      createAuditEntry(thread("2"), kept, { runId: "run-1", dryRun: false })
+    );
+
+    const lines = (await fs.readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      runId: "run-1",
+      dryRun: false,
+      threadId: "1",
+      repository: "org/repo",
+      subjectType: "PullRequest",
+      reason: "review_requested",
+      action: "done",
+      rule: "merged-closed-pr",
+      verdicts: merged.verdicts,
+    });
+  });
+
+  it("finds every decision for a thread, oldest first", async () => {
+    const auditLog = new AuditLog(logger, path.join(dir, "audit.jsonl"));
+    await auditLog.append(
+      createAuditEntry(thread("1"), kept, { runId: "run-1", dryRun: true })
+    );
+    await auditLog.append(
+      createAuditEntry(thread("2"), kept, { runId: "run-1", dryRun: true })
+    );
+    await auditLog.append(
+      createAuditEntry(thread("1"), merged, { runId: "run-2", dryRun: false })
+    );
+
+    const entries = await auditLog.findByThread("1");
+
+    expect(entries.map((entry) => [entry.runId, entry.action])).toEqual([
+      ["run-1", "keep"],
+      ["run-2", "done"],
+    ]);
+  });
+
+  it("finds nothing for an unknown thread or a missing log", async () => {
+    const filePath = path.join(dir, "audit.jsonl");
+    const auditLog = new AuditLog(logger, filePath);
+
+    expect(await auditLog.findByThread("1")).toEqual([]);
+
+    await auditLog.append(
+      createAuditEntry(thread("1"), merged, { runId: "run-1", dryRun: false })
+    );
+
+    expect(await auditLog.findByThread("404")).toEqual([]);
+  });
+
+  it("skips malformed lines", async () => {
+    const filePath = path.join(dir, "audit.jsonl");
+    const auditLog = new AuditLog(logger, filePath);
+    await auditLog.append(
+      createAuditEntry(thread("1"), merged, { runId: "run-1", dryRun: false })
+    );
+    await fs.appendFile(filePath, '{"threadId":"1","ti\n');
+
+    expect(await auditLog.findByThread("1")).toHaveLength(1);
+  });
+});
+
+describe("formatAuditEntry", () => {
+  it("explains the decision and every rule's verdict", () => {
+    const entry = {
+      ...createAuditEntry(thread("1"), merged, {
+        runId: "run-1",
+        dryRun: true,
+      }),
+      timestamp: "2024-01-02T00:00:00.000Z",
+    };
+
+    expect(formatAuditEntry(entry).split("\n")).toEqual([
+      "Thread 1: Bump lodash",
+      "  Repository: org/repo (PullRequest, reason: review_requested)",
+      "  Run: run-1 at 2024-01-02T00:00:00.000Z (dry run)",
+      "  Decision: done by rule merged-closed-pr",
+      "    - PR 1 is merged and user is not directly involved",
+      "  Rules:",
+      "     reason: none",
+      "        Reason review_requested is not listed",
+      "   * merged-closed-pr: done",
+      "        PR 1 is merged and user is not directly involved",
+    ]);
+  });
+});
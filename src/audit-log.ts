@@ -0,0 +1,110 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { GitHubNotification, Logger, ThreadDecision } from "./types";
+
+export const DEFAULT_AUDIT_LOG_PATH = ".gh-notifications/audit.jsonl";
+
+// One line of the audit log: a thread and the decision taken for it in a run
+export interface AuditEntry extends ThreadDecision {
+  timestamp: string;
+  runId: string;
+  dryRun: boolean;
+  threadId: string;
+  title: string;
+  url: string | null;
+  repository: string;
+  subjectType: string;
+  reason: string;
+  updatedAt: string;
+}
+
+export function createAuditEntry(
+  notification: GitHubNotification,
+  decision: ThreadDecision,
+  run: { runId: string; dryRun: boolean }
+): AuditEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    runId: run.runId,
+    dryRun: run.dryRun,
+    threadId: notification.id,
+    title: notification.subject.title,
+    url: notification.subject.url,
+    repository: notification.repository.full_name,
+    subjectType: notification.subject.type,
+    reason: notification.reason,
+    updatedAt: notification.updated_at,
+    ...decision,
+  };
+}
+
+export class AuditLog {
+  private filePath: string;
+  private logger: Logger;
+
+  constructor(logger: Logger, filePath: string = DEFAULT_AUDIT_LOG_PATH) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    try {
+      await fs.ensureDir(path.dirname(this.filePath));
+      await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to write audit entry for thread ${entry.threadId}:`,
+        error
+      );
+      // Don't throw - a missing audit line shouldn't stop the run
+    }
+  }
+
+  async readEntries(): Promise<AuditEntry[]> {
+    if (!(await fs.pathExists(this.filePath))) {
+      return [];
+    }
+
+    const content = await fs.readFile(this.filePath, "utf8");
+    const entries: AuditEntry[] = [];
+    content.split("\n").forEach((line, index) => {
+      if (line.trim() === "") {
+        return;
+      }
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch (error) {
+        this.logger.warn(
+          `Skipping malformed audit log line ${index + 1} in ${this.filePath}`
+        );
+      }
+    });
+    return entries;
+  }
+
+  async findByThread(threadId: string): Promise<AuditEntry[]> {
+    const entries = await this.readEntries();
+    return entries.filter((entry) => entry.threadId === threadId);
+  }
+}
+
+export function formatAuditEntry(entry: AuditEntry): string {
+  const lines = [
+    `Thread ${entry.threadId}: ${entry.title}`,
+    `  Repository: ${entry.repository} (${entry.subjectType}, reason: ${entry.reason})`,
+    `  Run: ${entry.runId} at ${entry.timestamp}${
+      entry.dryRun ? " (dry run)" : ""
+    }`,
+    `  Decision: ${entry.action}${entry.rule ? ` by rule ${entry.rule}` : ""}`,
+    ...entry.reasons.map((reason) => `    - ${reason}`),
+    "  Rules:",
+  ];
+
+  for (const verdict of entry.verdicts) {
+    const marker = verdict.action === "none" ? " " : "*";
+    lines.push(`   ${marker} ${verdict.rule}: ${verdict.action}`);
+    lines.push(...verdict.reasons.map((reason) => `        ${reason}`));
+  }
+
+  return lines.join("\n");
+}
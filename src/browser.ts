@@ -0,0 +1,16 @@
+import { spawn } from "child_process";
+
+export function openInBrowser(url: string): void {
+  const [command, args] =
+    process.platform === "darwin"
+      ? ["open", [url]]
+      : process.platform === "win32"
+      ? ["cmd", ["/c", "start", "", url]]
+      : ["xdg-open", [url]];
+
+  const child = spawn(command, args, { detached: true, stdio: "ignore" });
+  child.on("error", () => {
+    // No browser available (e.g. on a server), the URL is printed anyway
+  });
+  child.unref();
+}
@@ -0,0 +1,53 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { TeamCacheManager } from "./cache";
+import { getHttpCacheDir, HttpCache } from "./http-cache";
+import { Logger } from "./types";
+
+const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
+
+describe("clearing the caches", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cache-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("removes only the files the caches own", async () => {
+    const teams = new TeamCacheManager(logger, dir);
+    const http = new HttpCache(logger, getHttpCacheDir(dir));
+    await teams.saveTeamsToCache("octocat", []);
+    await http.fetch("GET /pulls/1", async () => ({ data: {}, headers: {} }));
+    await fs.writeFile(path.join(dir, "notes.txt"), "keep me");
+    await fs.writeFile(path.join(dir, "package.json"), "{}");
+
+    await teams.clearAllCache();
+    await http.clear();
+
+    expect((await fs.readdir(dir)).sort()).toEqual([
+      "notes.txt",
+      "package.json",
+    ]);
+  });
+
+  it("keeps the HTTP cache directory when it holds other files", async () => {
+    const httpDir = getHttpCacheDir(dir);
+    const http = new HttpCache(logger, httpDir);
+    await http.fetch("GET /pulls/1", async () => ({ data: {}, headers: {} }));
+    await fs.writeFile(path.join(httpDir, "notes.txt"), "keep me");
+
+    await http.clear();
+
+    expect(await fs.readdir(httpDir)).toEqual(["notes.txt"]);
+  });
+});
@@ -8,6 +8,9 @@ export interface TeamCache {
   username: string;
 }
 
+export const DEFAULT_CACHE_DIR = ".cache";
+export const DEFAULT_TEAM_CACHE_TTL_HOURS = 336;
+
 export class TeamCacheManager {
   private cacheDir: string;
   private logger: Logger;
@@ -15,8 +18,8 @@ export class TeamCacheManager {
 
   constructor(
     logger: Logger,
-    cacheDir: string = ".cache",
-    cacheTTLHours: number = 336
+    cacheDir: string = DEFAULT_CACHE_DIR,
+    cacheTTLHours: number = DEFAULT_TEAM_CACHE_TTL_HOURS
   ) {
     this.cacheDir = cacheDir;
     this.logger = logger;
@@ -27,6 +30,37 @@ export class TeamCacheManager {
     return path.join(this.cacheDir, `teams-${username}.json`);
   }
 
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  isExpired(cache: TeamCache): boolean {
+    return Date.now() - cache.timestamp > this.cacheTTL;
+  }
+
+  // Every cached team list, expired ones included, for inspecting the cache
+  async listCaches(): Promise<TeamCache[]> {
+    if (!(await fs.pathExists(this.cacheDir))) {
+      return [];
+    }
+
+    const files = (await fs.readdir(this.cacheDir)).filter(
+      (file) => file.startsWith("teams-") && file.endsWith(".json")
+    );
+
+    const caches: TeamCache[] = [];
+    for (const file of files) {
+      try {
+        caches.push(
+          (await fs.readJson(path.join(this.cacheDir, file))) as TeamCache
+        );
+      } catch (error) {
+        this.logger.warn(`Skipping unreadable cache file ${file}:`, error);
+      }
+    }
+    return caches.sort((a, b) => a.username.localeCompare(b.username));
+  }
+
   async getCachedTeams(username: string): Promise<GitHubTeam[] | null> {
     try {
       const cacheFilePath = this.getCacheFilePath(username);
@@ -114,14 +148,22 @@ export class TeamCacheManager {
     }
   }
 
+  // Removes only the team cache files: the cache directory is configurable
+  // and may hold other files, up to being the working or home directory
   async clearAllCache(): Promise<void> {
     try {
-      if (await fs.pathExists(this.cacheDir)) {
-        await fs.remove(this.cacheDir);
-        this.logger.info("Cleared all cache files");
-      } else {
+      if (!(await fs.pathExists(this.cacheDir))) {
         this.logger.debug("No cache directory found to clear");
+        return;
+      }
+
+      const files = (await fs.readdir(this.cacheDir)).filter(
+        (file) => file.startsWith("teams-") && file.endsWith(".json")
+      );
+      for (const file of files) {
+        await fs.remove(path.join(this.cacheDir, file));
       }
+      this.logger.info(`Cleared ${files.length} team cache files`);
     } catch (error) {
       this.logger.warn("Failed to clear cache:", error);
     }
@@ -1,12 +1,108 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { ConsoleLogger } from './logger';
+import { loadConfig, NotificationsConfig } from './config';
+import { AuditLog, formatAuditEntry } from './audit-log';
+import { parseSince } from './time';
+import { NotificationWatcher } from './watcher';
+import { TriageSession } from './triage';
 import { NotificationProcessor } from './notification-processor';
+import { formatTeamStats, isReportFormat, REPORT_FORMATS, ReportFormat, writeReport } from './report';
+import { getHttpCacheDir, HttpCache } from './http-cache';
+import { confirmInTerminal } from './safety';
+import { createPlan, readPlan, writePlan } from './plan';
+import { TeamCacheManager } from './cache';
 import { Logger } from './types';
 
 const program = new Command();
 
+function parseReportFormat(value: string | undefined, logger: Logger): ReportFormat | undefined {
+  if (value !== undefined && !isReportFormat(value)) {
+    logger.error(`Invalid --format: ${value} (expected ${REPORT_FORMATS.join(', ')})`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// Cache options can also come from the environment, e.g. on CI runners
+function cacheDirOption(): Option {
+  return new Option('--cache-dir <dir>', 'Directory for the team and HTTP caches (default: .cache)').env('GH_NOTIFICATIONS_CACHE_DIR');
+}
+
+function cacheTtlOption(): Option {
+  return new Option('--cache-ttl <hours>', 'How long cached teams stay valid (default: 336)').env('GH_NOTIFICATIONS_CACHE_TTL');
+}
+
+interface CliOverrides {
+  concurrency?: string;
+  enrichment?: string;
+  cacheDir?: string;
+  cacheTtl?: string;
+  maxActions?: string;
+  maxActionsPercent?: string;
+  requireTeams?: boolean;
+}
+
+// Command line options (and their environment variables) override the config file
+function withCliOverrides(config: NotificationsConfig, options: CliOverrides, logger: Logger): NotificationsConfig {
+  const overridden = { ...config };
+  
+  if (options.concurrency !== undefined) {
+    const concurrency = parseInt(options.concurrency);
+    if (isNaN(concurrency) || concurrency < 1 || concurrency > 32) {
+      logger.error(`Invalid --concurrency: ${options.concurrency} (expected 1-32)`);
+      process.exit(1);
+    }
+    overridden.concurrency = concurrency;
+  }
+  
+  if (options.enrichment !== undefined) {
+    if (options.enrichment !== 'rest' && options.enrichment !== 'graphql') {
+      logger.error(`Invalid --enrichment: ${options.enrichment} (expected rest, graphql)`);
+      process.exit(1);
+    }
+    overridden.enrichment = options.enrichment;
+  }
+  
+  if (options.cacheDir !== undefined) {
+    overridden.cacheDir = options.cacheDir;
+  }
+  
+  if (options.cacheTtl !== undefined) {
+    const cacheTTLHours = Number(options.cacheTtl);
+    if (!Number.isFinite(cacheTTLHours) || cacheTTLHours <= 0) {
+      logger.error(`Invalid --cache-ttl: ${options.cacheTtl} (expected a number of hours)`);
+      process.exit(1);
+    }
+    overridden.cacheTTLHours = cacheTTLHours;
+  }
+  
+  if (options.maxActions !== undefined) {
+    const maxActions = Number(options.maxActions);
+    if (!Number.isInteger(maxActions) || maxActions < 0) {
+      logger.error(`Invalid --max-actions: ${options.maxActions} (expected a number of threads)`);
+      process.exit(1);
+    }
+    overridden.safety = { ...overridden.safety, maxActions };
+  }
+  
+  if (options.maxActionsPercent !== undefined) {
+    const maxActionsPercent = Number(options.maxActionsPercent);
+    if (!Number.isFinite(maxActionsPercent) || maxActionsPercent < 0 || maxActionsPercent > 100) {
+      logger.error(`Invalid --max-actions-percent: ${options.maxActionsPercent} (expected 0-100)`);
+      process.exit(1);
+    }
+    overridden.safety = { ...overridden.safety, maxActionsPercent };
+  }
+  
+  if (options.requireTeams) {
+    overridden.safety = { ...overridden.safety, requireTeams: true };
+  }
+  
+  return overridden;
+}
+
 program
   .name('gh-notifications')
   .description('Automatically mark GitHub threads as done when they don\'t require action')
@@ -19,12 +115,33 @@ program
   .requiredOption('-u, --user <username>', 'GitHub username')
   .option('-d, --dry-run', 'Preview what would be marked as done without actually doing it', false)
   .option('-i, --invalidate-cache', 'Invalidate team cache and fetch fresh data', false)
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON)')
+  .option('-f, --format <format>', `Print a report of every thread (${REPORT_FORMATS.join(', ')})`)
+  .option('-o, --output <path>', 'Write the report to a file instead of stdout')
+  .option('--team-stats', 'Print how many kept threads each of your teams is requested on', false)
+  .option('--plan-out <path>', 'Write the planned actions to a plan file instead of acting; run them later with apply')
+  .option('--max-actions <n>', 'Stop before acting when more threads than this would be acted on')
+  .option('--max-actions-percent <percent>', 'Stop before acting when more than this percentage of the threads would be acted on')
+  .option('--require-teams', 'Stop when your teams cannot be loaded instead of running without them')
+  .option('--force', 'Act even when a safety limit is exceeded', false)
+  .option('--concurrency <n>', 'How many GitHub requests run at the same time (default: 4)')
+  .option('--enrichment <backend>', 'Fetch PR details with one REST call each or batched GraphQL queries (rest, graphql)')
+  .addOption(cacheDirOption())
+  .addOption(cacheTtlOption())
   .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
   .action(async (options) => {
-    const logger: Logger = new ConsoleLogger(options.logLevel);
+    // A report printed to stdout must stay parseable
+    const logger: Logger = new ConsoleLogger(options.logLevel, options.format !== undefined && !options.output);
     
     try {
+      const format = parseReportFormat(options.format ?? (options.output ? 'json' : undefined), logger);
       logger.info('GitHub Threads Processor CLI');
+      const { config: loaded } = await loadConfig(logger, options.config);
+      const config = withCliOverrides(loaded, options, logger);
+      if (options.planOut) {
+        // Planning never acts, the plan is applied later
+        options.dryRun = true;
+      }
       logger.info(`Processing threads for user: ${options.user}`);
       logger.info(`Dry run mode: ${options.dryRun ? 'enabled' : 'disabled'}`);
       logger.info(`Cache invalidation: ${options.invalidateCache ? 'enabled' : 'disabled'}`);
@@ -38,8 +155,25 @@ program
       }
 
       // Create and run the thread processor
-      const processor = new NotificationProcessor(options.token, options.user, logger, options.dryRun, options.invalidateCache);
-      await processor.processNotifications();
+      const processor = new NotificationProcessor(options.token, options.user, logger, options.dryRun, options.invalidateCache, config);
+      if (options.force) {
+        processor.setConfirmLargeRun(async () => true);
+      } else if (process.stdin.isTTY) {
+        processor.setConfirmLargeRun(() => confirmInTerminal('Act on these threads anyway?'));
+      }
+      const report = await processor.processNotifications();
+      
+      if (options.planOut) {
+        const plan = createPlan(report);
+        await writePlan(plan, options.planOut);
+        logger.info(`📝 Wrote a plan of ${plan.threads.length} threads to ${options.planOut}`);
+      }
+      if (format) {
+        await writeReport(report, format, options.output);
+      }
+      if (options.teamStats) {
+        process.stdout.write(formatTeamStats(report));
+      }
 
       logger.info('GitHub Threads Processor completed successfully');
       
@@ -49,20 +183,109 @@ program
     }
   });
 
+program
+  .command('apply <plan>')
+  .description('Apply a plan written by process --plan-out, skipping threads updated since it was made')
+  .requiredOption('-t, --token <token>', 'GitHub Personal Access Token')
+  .option('-d, --dry-run', 'Preview what the plan would do without actually doing it', false)
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON) for the safety limits')
+  .option('-f, --format <format>', `Print a report of every planned thread (${REPORT_FORMATS.join(', ')})`)
+  .option('-o, --output <path>', 'Write the report to a file instead of stdout')
+  .option('--max-actions <n>', 'Stop before acting when more threads than this would be acted on')
+  .option('--max-actions-percent <percent>', 'Stop before acting when more than this percentage of the threads would be acted on')
+  .option('--force', 'Act even when a safety limit is exceeded', false)
+  .option('--concurrency <n>', 'How many GitHub requests run at the same time (default: 4)')
+  .addOption(cacheDirOption())
+  .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
+  .action(async (planPath: string, options) => {
+    // A report printed to stdout must stay parseable
+    const logger: Logger = new ConsoleLogger(options.logLevel, options.format !== undefined && !options.output);
+    
+    try {
+      const format = parseReportFormat(options.format ?? (options.output ? 'json' : undefined), logger);
+      const plan = await readPlan(planPath);
+      const { config: loaded } = await loadConfig(logger, options.config);
+      const config = withCliOverrides(loaded, options, logger);
+      logger.info(`Applying plan ${plan.runId} for user ${plan.user}: ${plan.threads.length} threads, made at ${plan.createdAt}`);
+      
+      if (options.dryRun) {
+        logger.info('🔍 DRY RUN MODE - No threads will actually be acted on');
+      }
+
+      const processor = new NotificationProcessor(options.token, plan.user, logger, options.dryRun, false, config);
+      if (options.force) {
+        processor.setConfirmLargeRun(async () => true);
+      } else if (process.stdin.isTTY) {
+        processor.setConfirmLargeRun(() => confirmInTerminal('Act on these threads anyway?'));
+      }
+      const report = await processor.applyPlan(plan);
+      
+      if (format) {
+        await writeReport(report, format, options.output);
+      }
+    } catch (error) {
+      logger.error('Failed to apply plan:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('list')
+  .description('Evaluate the rules against every unread thread and report the decisions without acting')
+  .requiredOption('-t, --token <token>', 'GitHub Personal Access Token')
+  .requiredOption('-u, --user <username>', 'GitHub username')
+  .option('-i, --invalidate-cache', 'Invalidate team cache and fetch fresh data', false)
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON)')
+  .option('-f, --format <format>', `Report format (${REPORT_FORMATS.join(', ')})`, 'table')
+  .option('-o, --output <path>', 'Write the report to a file instead of stdout')
+  .option('--team-stats', 'Print how many kept threads each of your teams is requested on', false)
+  .option('--concurrency <n>', 'How many GitHub requests run at the same time (default: 4)')
+  .option('--enrichment <backend>', 'Fetch PR details with one REST call each or batched GraphQL queries (rest, graphql)')
+  .addOption(cacheDirOption())
+  .addOption(cacheTtlOption())
+  .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'warn')
+  .action(async (options) => {
+    const logger: Logger = new ConsoleLogger(options.logLevel, !options.output);
+    
+    try {
+      const format = parseReportFormat(options.format, logger) ?? 'table';
+      const { config: loaded } = await loadConfig(logger, options.config);
+      const config = withCliOverrides(loaded, options, logger);
+      
+      // A dry run evaluates every thread without marking anything as done
+      const processor = new NotificationProcessor(options.token, options.user, logger, true, options.invalidateCache, config);
+      const report = await processor.processNotifications();
+      
+      await writeReport(report, format, options.output);
+      if (options.teamStats) {
+        process.stdout.write(formatTeamStats(report));
+      }
+      
+    } catch (error) {
+      logger.error('Failed to list threads:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('test-connection')
   .description('Test GitHub API connection and user authentication')
   .requiredOption('-t, --token <token>', 'GitHub Personal Access Token')
   .requiredOption('-u, --user <username>', 'GitHub username')
   .option('-i, --invalidate-cache', 'Invalidate team cache and fetch fresh data', false)
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON)')
+  .addOption(cacheDirOption())
+  .addOption(cacheTtlOption())
   .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
   .action(async (options) => {
     const logger: Logger = new ConsoleLogger(options.logLevel);
     
     try {
       logger.info('Testing GitHub API connection...');
+      const { config: loaded } = await loadConfig(logger, options.config);
+      const config = withCliOverrides(loaded, options, logger);
       
-      const processor = new NotificationProcessor(options.token, options.user, logger, true, options.invalidateCache);
+      const processor = new NotificationProcessor(options.token, options.user, logger, true, options.invalidateCache, config);
       
       // Test by loading teams and fetching a small number of notifications
       await processor.testConnection();
@@ -75,6 +298,273 @@ program
     }
   });
 
+program
+  .command('watch')
+  .description('Keep running and process threads as they change')
+  .requiredOption('-t, --token <token>', 'GitHub Personal Access Token')
+  .requiredOption('-u, --user <username>', 'GitHub username')
+  .option('-d, --dry-run', 'Preview what would be marked as done without actually doing it', false)
+  .option('-i, --invalidate-cache', 'Invalidate team cache and fetch fresh data', false)
+  .option('--interval <seconds>', 'Minimum seconds between polls (GitHub\'s X-Poll-Interval wins when longer)', '60')
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON)')
+  .option('--max-actions <n>', 'Stop watching when a cycle would act on more threads than this')
+  .option('--max-actions-percent <percent>', 'Stop watching when a cycle would act on more than this percentage of the threads')
+  .option('--require-teams', 'Wait for your teams to load before acting, retrying each cycle')
+  .option('--force', 'Act even when a safety limit is exceeded', false)
+  .option('--concurrency <n>', 'How many GitHub requests run at the same time (default: 4)')
+  .option('--enrichment <backend>', 'Fetch PR details with one REST call each or batched GraphQL queries (rest, graphql)')
+  .addOption(cacheDirOption())
+  .addOption(cacheTtlOption())
+  .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
+  .action(async (options) => {
+    const logger: Logger = new ConsoleLogger(options.logLevel);
+    
+    try {
+      const minIntervalSeconds = parseInt(options.interval);
+      if (isNaN(minIntervalSeconds) || minIntervalSeconds < 1) {
+        logger.error(`Invalid --interval: ${options.interval}`);
+        process.exit(1);
+      }
+      
+      logger.info('GitHub Threads Processor CLI (watch mode)');
+      logger.info(`Watching threads for user: ${options.user}`);
+      logger.info(`Dry run mode: ${options.dryRun ? 'enabled' : 'disabled'}`);
+      const { config: loaded } = await loadConfig(logger, options.config);
+      const config = withCliOverrides(loaded, options, logger);
+      
+      const processor = new NotificationProcessor(options.token, options.user, logger, options.dryRun, options.invalidateCache, config);
+      // Nobody is around to confirm a large cycle, so without --force it stops the watch
+      if (options.force) {
+        processor.setConfirmLargeRun(async () => true);
+      }
+      const watcher = new NotificationWatcher(processor, logger, { minIntervalSeconds });
+      await watcher.run();
+      
+    } catch (error) {
+      logger.error('GitHub Threads Processor watch failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('triage')
+  .description('Interactively go through the threads the rules keep')
+  .requiredOption('-t, --token <token>', 'GitHub Personal Access Token')
+  .requiredOption('-u, --user <username>', 'GitHub username')
+  .option('-i, --invalidate-cache', 'Invalidate team cache and fetch fresh data', false)
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON), new rules are written to it')
+  .option('--concurrency <n>', 'How many GitHub requests run at the same time (default: 4)')
+  .option('--enrichment <backend>', 'Fetch PR details with one REST call each or batched GraphQL queries (rest, graphql)')
+  .addOption(cacheDirOption())
+  .addOption(cacheTtlOption())
+  .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'warn')
+  .action(async (options) => {
+    const logger: Logger = new ConsoleLogger(options.logLevel);
+    
+    try {
+      const { config: loaded, source } = await loadConfig(logger, options.config);
+      const config = withCliOverrides(loaded, options, logger);
+      
+      const processor = new NotificationProcessor(options.token, options.user, logger, false, options.invalidateCache, config);
+      const session = new TriageSession(processor, logger, source);
+      await session.run();
+      
+    } catch (error) {
+      logger.error('Triage failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('explain <thread-id>')
+  .description('Show which rules matched a thread and why, from the audit log')
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON)')
+  .option('--audit-log <path>', 'Path to the audit log (defaults to the configured one)')
+  .option('-a, --all', 'Show every recorded decision instead of only the latest', false)
+  .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
+  .action(async (threadId: string, options) => {
+    const logger: Logger = new ConsoleLogger(options.logLevel);
+    
+    try {
+      const { config } = await loadConfig(logger, options.config);
+      const auditLogPath = options.auditLog ?? (config.auditLog || undefined);
+      const auditLog = new AuditLog(logger, auditLogPath);
+      
+      const entries = await auditLog.findByThread(threadId);
+      if (entries.length === 0) {
+        logger.warn(`No decisions recorded for thread ${threadId}`);
+        process.exit(1);
+      }
+      
+      const shown = options.all ? entries : entries.slice(-1);
+      console.log(shown.map(formatAuditEntry).join('\n\n'));
+      
+    } catch (error) {
+      logger.error('Failed to explain thread:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('undo')
+  .description('Resubscribe to and show threads that were marked as done')
+  .requiredOption('-t, --token <token>', 'GitHub Personal Access Token')
+  .requiredOption('-u, --user <username>', 'GitHub username')
+  .option('-r, --run <id>', 'Only threads from this run ("latest" for the most recent run)')
+  .option('-s, --since <when>', 'Only threads marked as done since a duration ago (e.g. 2d) or a date')
+  .option('--thread <id>', 'Only this thread')
+  .option('-o, --open', 'Open the restored threads in the browser', false)
+  .option('-d, --dry-run', 'Show the threads without resubscribing', false)
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON)')
+  .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
+  .action(async (options) => {
+    const logger: Logger = new ConsoleLogger(options.logLevel);
+    
+    try {
+      if (!options.run && !options.since && !options.thread) {
+        logger.error('Pass at least one of --run, --since or --thread');
+        process.exit(1);
+      }
+      
+      const { config } = await loadConfig(logger, options.config);
+      const processor = new NotificationProcessor(options.token, options.user, logger, options.dryRun, false, config);
+      
+      await processor.undoThreads(
+        {
+          runId: options.run,
+          since: options.since ? parseSince(options.since) : undefined,
+          threadId: options.thread,
+        },
+        options.open
+      );
+      
+    } catch (error) {
+      logger.error('Undo failed:', error);
+      process.exit(1);
+    }
+  });
+
+const cache = program
+  .command('cache')
+  .description('Inspect, refresh and clear the on-disk caches');
+
+cache
+  .command('show')
+  .description('Show the cached teams of every user and their age')
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON)')
+  .addOption(cacheDirOption())
+  .addOption(cacheTtlOption())
+  .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
+  .action(async (options) => {
+    const logger: Logger = new ConsoleLogger(options.logLevel);
+    
+    try {
+      const { config: loaded } = await loadConfig(logger, options.config);
+      const config = withCliOverrides(loaded, options, logger);
+      const cacheManager = new TeamCacheManager(logger, config.cacheDir, config.cacheTTLHours);
+      
+      const caches = await cacheManager.listCaches();
+      if (caches.length === 0) {
+        console.log(`No cached teams in ${cacheManager.getCacheDir()}`);
+        return;
+      }
+      
+      for (const teamCache of caches) {
+        const ageHours = Math.round((Date.now() - teamCache.timestamp) / (60 * 60 * 1000));
+        const expired = cacheManager.isExpired(teamCache) ? ', expired' : '';
+        console.log(`${teamCache.username}: ${teamCache.teams.length} teams (age: ${ageHours} hours${expired})`);
+        for (const team of teamCache.teams) {
+          console.log(`  ${team.organization.login}/${team.slug}${team.parent ? ` (parent: ${team.parent.slug})` : ''}`);
+        }
+      }
+      
+    } catch (error) {
+      logger.error('Failed to show cache:', error);
+      process.exit(1);
+    }
+  });
+
+cache
+  .command('refresh')
+  .description('Fetch the user\'s teams from GitHub and replace the cached list')
+  .requiredOption('-t, --token <token>', 'GitHub Personal Access Token')
+  .requiredOption('-u, --user <username>', 'GitHub username')
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON)')
+  .addOption(cacheDirOption())
+  .addOption(cacheTtlOption())
+  .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
+  .action(async (options) => {
+    const logger: Logger = new ConsoleLogger(options.logLevel);
+    
+    try {
+      const { config: loaded } = await loadConfig(logger, options.config);
+      const config = withCliOverrides(loaded, options, logger);
+      
+      const processor = new NotificationProcessor(options.token, options.user, logger, true, true, config);
+      const teams = await processor.refreshTeams();
+      logger.info(`Cached ${teams.length} teams for user ${options.user}`);
+      
+    } catch (error) {
+      logger.error('Failed to refresh cache:', error);
+      process.exit(1);
+    }
+  });
+
+cache
+  .command('stats')
+  .description('Show how many subject details the HTTP cache holds')
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON)')
+  .addOption(cacheDirOption())
+  .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
+  .action(async (options) => {
+    const logger: Logger = new ConsoleLogger(options.logLevel);
+    
+    try {
+      const { config: loaded } = await loadConfig(logger, options.config);
+      const config = withCliOverrides(loaded, options, logger);
+      
+      const stats = await new HttpCache(logger, getHttpCacheDir(config.cacheDir)).getStats();
+      console.log(`HTTP cache entries: ${stats.entries}`);
+      console.log(`Size: ${(stats.sizeBytes / (1024 * 1024)).toFixed(2)} MB`);
+      if (stats.oldest && stats.newest) {
+        console.log(`Oldest entry validated: ${stats.oldest.toISOString()}`);
+        console.log(`Newest entry validated: ${stats.newest.toISOString()}`);
+      }
+      
+    } catch (error) {
+      logger.error('Failed to read cache stats:', error);
+      process.exit(1);
+    }
+  });
+
+cache
+  .command('clear')
+  .description('Remove the cached teams of one user, or every cache when no user is given')
+  .option('-u, --user <username>', 'Only clear the cached teams of this user')
+  .option('-c, --config <path>', 'Path to a rules config file (YAML or JSON)')
+  .addOption(cacheDirOption())
+  .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
+  .action(async (options) => {
+    const logger: Logger = new ConsoleLogger(options.logLevel);
+    
+    try {
+      const { config: loaded } = await loadConfig(logger, options.config);
+      const config = withCliOverrides(loaded, options, logger);
+      const cacheManager = new TeamCacheManager(logger, config.cacheDir);
+      
+      if (options.user) {
+        await cacheManager.invalidateCache(options.user);
+      } else {
+        await cacheManager.clearAllCache();
+        await new HttpCache(logger, getHttpCacheDir(config.cacheDir)).clear();
+      }
+      
+    } catch (error) {
+      logger.error('Failed to clear cache:', error);
+      process.exit(1);
+    }
+  });
+
 // Parse command line arguments
 program.parse();
 
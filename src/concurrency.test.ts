@@ -0,0 +1,68 @@
+import { createSharedRequests, mapWithConcurrency } from "./concurrency";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("mapWithConcurrency", () => {
+  it("keeps the input order whatever order calls finish in", async () => {
+    const results = await mapWithConcurrency([30, 10, 20, 0], 4, async (ms) => {
+      await delay(ms);
+      return ms;
+    });
+
+    expect(results).toEqual([30, 10, 20, 0]);
+  });
+
+  it("has at most limit calls in flight", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(5);
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it("handles no items", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe("createSharedRequests", () => {
+  it("makes one request per key", async () => {
+    const shareRequest = createSharedRequests<string>();
+    const requested: string[] = [];
+    const request = (key: string) => () => {
+      requested.push(key);
+      return delay(5).then(() => `details of ${key}`);
+    };
+
+    const results = await Promise.all([
+      shareRequest("pulls/1", request("pulls/1")),
+      shareRequest("pulls/2", request("pulls/2")),
+      shareRequest("pulls/1", request("pulls/1")),
+    ]);
+
+    expect(requested).toEqual(["pulls/1", "pulls/2"]);
+    expect(results).toEqual([
+      "details of pulls/1",
+      "details of pulls/2",
+      "details of pulls/1",
+    ]);
+  });
+
+  it("never shares requests without a key", async () => {
+    const shareRequest = createSharedRequests<number>();
+    let count = 0;
+
+    await shareRequest(null, async () => ++count);
+    await shareRequest(null, async () => ++count);
+
+    expect(count).toBe(2);
+  });
+});
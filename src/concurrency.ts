@@ -0,0 +1,42 @@
+// Runs fn over items with at most `limit` calls in flight. Results keep the
+// order of the input, whatever order the calls finish in.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+// Calls with the same key share the first call's request instead of making
+// their own. A null key is never shared.
+export function createSharedRequests<R>(): (
+  key: string | null,
+  request: () => Promise<R>
+) => Promise<R> {
+  const requests = new Map<string, Promise<R>>();
+
+  return (key, request) => {
+    if (key === null) {
+      return request();
+    }
+    let shared = requests.get(key);
+    if (!shared) {
+      shared = request();
+      requests.set(key, shared);
+    }
+    return shared;
+  };
+}
@@ -0,0 +1,228 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import {
+  appendRuleToConfig,
+  ConfigError,
+  findConfigFile,
+  loadConfig,
+  parseConfig,
+  RuleConfig,
+} from "./config";
+import { Logger } from "./types";
+
+const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
+
+describe("parseConfig", () => {
+  it("parses YAML and JSON by file extension", () => {
+    const yaml = "rules:\n  - type: merged-closed-pr\n";
+    const json = '{"rules": [{"type": "merged-closed-pr"}]}';
+
+    expect(parseConfig(yaml, "config.yml").rules).toMatchObject([
+      { type: "merged-closed-pr" },
+    ]);
+    expect(parseConfig(json, "config.json").rules).toMatchObject([
+      { type: "merged-closed-pr" },
+    ]);
+  });
+
+  it("treats an empty file as the defaults", () => {
+    expect(parseConfig("", "config.yml")).toEqual({});
+  });
+
+  it("lists every invalid field with its path", () => {
+    const yaml = [
+      "concurrency: 0",
+      "rules:",
+      "  - type: no-such-rule",
+      "  - type: bot-author-pr",
+    ].join("\n");
+
+    expect(() => parseConfig(yaml, "config.yml")).toThrow(ConfigError);
+    try {
+      parseConfig(yaml, "config.yml");
+    } catch (error) {
+      const message = (error as Error).message;
+      expect(message).toContain("Invalid config file config.yml:");
+      expect(message).toContain("  - concurrency:");
+      expect(message).toContain("  - rules.0");
+    }
+  });
+
+  it("rejects disabled rules inside match conditions", () => {
+    const yaml = [
+      "rules:",
+      "  - type: match",
+      "    action: done",
+      "    when:",
+      "      all:",
+      "        - reasons: [subscribed]",
+      "        - not:",
+      "            rule:",
+      "              type: closed-issue",
+      "              enabled: false",
+    ].join("\n");
+
+    expect(() => parseConfig(yaml, "config.yml")).toThrow(
+      /rules\.0\.when\.all\.1\.not\.rule\.enabled: Rules inside a match condition can't be disabled/
+    );
+  });
+
+  it("reports syntax errors with the file name", () => {
+    expect(() => parseConfig("{not json", "config.json")).toThrow(
+      /Failed to parse config file config\.json/
+    );
+  });
+});
+
+describe("findConfigFile", () => {
+  let cwd: string;
+  let home: string;
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(path.join(os.tmpdir(), "config-cwd-"));
+    home = await fs.mkdtemp(path.join(os.tmpdir(), "config-home-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(cwd);
+    await fs.remove(home);
+  });
+
+  it("prefers the current directory over the home directory", async () => {
+    await fs.writeFile(path.join(home, ".gh-notifications.yml"), "");
+    await fs.writeFile(path.join(cwd, ".gh-notifications.json"), "{}");
+
+    expect(await findConfigFile([cwd, home])).toBe(
+      path.join(cwd, ".gh-notifications.json")
+    );
+  });
+
+  it("prefers YAML over JSON in the same directory", async () => {
+    await fs.writeFile(path.join(home, ".gh-notifications.json"), "{}");
+    await fs.writeFile(path.join(home, ".gh-notifications.yaml"), "");
+
+    expect(await findConfigFile([cwd, home])).toBe(
+      path.join(home, ".gh-notifications.yaml")
+    );
+  });
+
+  it("returns null without a config file", async () => {
+    expect(await findConfigFile([cwd, home])).toBeNull();
+  });
+});
+
+describe("loadConfig", () => {
+  it("fails for a missing explicit config file", async () => {
+    await expect(
+      loadConfig(logger, path.join(os.tmpdir(), "no-such-config.yml"))
+    ).rejects.toThrow(/Config file not found/);
+  });
+
+  it("loads an explicit config file", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "config-"));
+    const configPath = path.join(dir, "rules.yml");
+    await fs.writeFile(configPath, "rules:\n  - type: merged-closed-pr\n");
+
+    try {
+      const { config, source } = await loadConfig(logger, configPath);
+
+      expect(source).toBe(configPath);
+      expect(config.rules).toHaveLength(1);
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+});
+
+describe("appendRuleToConfig", () => {
+  let dir: string;
+  const rule: RuleConfig = {
+    type: "any-thread",
+    name: "triage: org/repo subscribed Issue",
+    enabled: true,
+    repos: ["org/repo"],
+    reasons: ["subscribed"],
+    subjectTypes: ["Issue"],
+  };
+  const currentRules: RuleConfig[] = [
+    { type: "merged-closed-pr", enabled: true },
+  ];
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "config-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("adds the rule to the end of a YAML file, keeping its comments", async () => {
+    const configPath = path.join(dir, ".gh-notifications.yml");
+    await fs.writeFile(
+      configPath,
+      [
+        "# Shared with the team",
+        "concurrency: 4",
+        "rules:",
+        "  # Keep mentions first",
+        "  - type: reason",
+        "    reasons: [mention]",
+        "    action: keep",
+        "  - type: closed-issue # only issues",
+        "",
+      ].join("\n")
+    );
+
+    expect(await appendRuleToConfig(configPath, rule, currentRules)).toBe(
+      configPath
+    );
+
+    const content = await fs.readFile(configPath, "utf8");
+    expect(content).toMatch(
+      /^# Shared with the team\nconcurrency: 4\nrules:\n {2}# Keep mentions first\n/
+    );
+    expect(content).toContain("  - type: closed-issue # only issues\n");
+    const config = parseConfig(content, configPath);
+    expect(config.concurrency).toBe(4);
+    expect(config.rules?.map((parsed) => parsed.type)).toEqual([
+      "reason",
+      "closed-issue",
+      "any-thread",
+    ]);
+    expect(config.rules?.[2]).toEqual(rule);
+  });
+
+  it("writes the rules in effect first to a file without a rules list", async () => {
+    const configPath = path.join(dir, ".gh-notifications.yaml");
+    await fs.writeFile(configPath, "# Defaults only\nconcurrency: 2\n");
+
+    await appendRuleToConfig(configPath, rule, currentRules);
+
+    const content = await fs.readFile(configPath, "utf8");
+    expect(content).toMatch(/^# Defaults only\n/);
+    expect(
+      parseConfig(content, configPath).rules?.map((parsed) => parsed.type)
+    ).toEqual(["merged-closed-pr", "any-thread"]);
+  });
+
+  it("adds the rule to a JSON file", async () => {
+    const configPath = path.join(dir, ".gh-notifications.json");
+    await fs.writeJson(configPath, {
+      concurrency: 3,
+      rules: [{ type: "closed-issue" }],
+    });
+
+    await appendRuleToConfig(configPath, rule, currentRules);
+
+    expect(await fs.readJson(configPath)).toEqual({
+      concurrency: 3,
+      rules: [{ type: "closed-issue" }, rule],
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import YAML from "yaml";
+import { z } from "zod";
+import { patternToRegExp } from "./patterns";
+import { parseDuration } from "./time";
+import { Logger } from "./types";
+
+// Looked up in the current directory first, then in the home directory
+export const CONFIG_FILE_NAMES = [
+  ".gh-notifications.yml",
+  ".gh-notifications.yaml",
+  ".gh-notifications.json",
+];
+
+// Durations such as "12h" or "1d"
+const durationSchema = z.string().refine(
+  (value) => {
+    try {
+      parseDuration(value);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+  { message: 'Expected a duration such as "12h" or "1d"' }
+);
+
+// Globs such as "my-org/*" or regular expressions such as "/^my-org\/.*-app$/"
+const patternsSchema = z
+  .array(
+    z
+      .string()
+      .min(1)
+      .refine(
+        (value) => {
+          try {
+            patternToRegExp(value);
+            return true;
+          } catch (error) {
+            return false;
+          }
+        },
+        { message: "Invalid regular expression" }
+      )
+  )
+  .min(1);
+
+// Repositories ("owner/name") and organizations, by pattern
+const repoSelectorSchema = z
+  .object({
+    repos: patternsSchema.optional(),
+    orgs: patternsSchema.optional(),
+  })
+  .strict()
+  .refine((selector) => selector.repos || selector.orgs, {
+    message: "Expected repos or orgs",
+  });
+
+// What a rule does with the threads it matches
+const threadActionSchema = z.enum([
+  "done",
+  "read",
+  "unsubscribe",
+  "unsubscribe+done",
+  "mute",
+]);
+
+// Options shared by every rule: its name, whether it runs at all and which
+// threads it applies to. Omitted scopes mean "all repositories" / "all
+// organizations" / "all reasons" / "all subject types".
+const ruleScopeShape = {
+  // Shown in logs, reports and the audit log (defaults to the rule type)
+  name: z.string().min(1).optional(),
+  enabled: z.boolean().default(true),
+  repos: patternsSchema.optional(),
+  orgs: patternsSchema.optional(),
+  reasons: z.array(z.string().min(1)).optional(),
+  subjectTypes: z.array(z.string().min(1)).optional(),
+};
+
+// Built-in rules mark the threads they match as done unless told otherwise
+const filterRuleShape = {
+  ...ruleScopeShape,
+  action: threadActionSchema.optional(),
+};
+
+// Shorthand rule types for the bots that used to have dedicated filters.
+// They behave like a "bot-author-pr" rule preset with that bot's logins.
+const legacyBotRuleSchema = (type: LegacyBotRuleType) =>
+  z
+    .object({
+      type: z.literal(type),
+      login: z.string().min(1).optional(),
+      ...filterRuleShape,
+    })
+    .strict();
+
+export type LegacyBotRuleType =
+  | "renovate-pr"
+  | "dependabot-pr"
+  | "plugins-platform-bot-pr";
+
+// Rules backed by one of the built-in filters
+const filterRuleSchema = z.discriminatedUnion("type", [
+  z
+    .object({ type: z.literal("merged-closed-pr"), ...filterRuleShape })
+    .strict(),
+  z
+    .object({
+      type: z.literal("bot-author-pr"),
+      logins: z.array(z.string().min(1)).min(1).optional(),
+      teamReviewRequestsCountAsInvolvement: z.boolean().default(false),
+      ...filterRuleShape,
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("stale-open-pr"),
+      // Done once the user's latest review approves the current head commit
+      doneWhenApproved: z.boolean().default(true),
+      // Done after this many days without activity when the user is only
+      // requested through a team
+      staleAfterDays: z.number().positive().default(14),
+      ...filterRuleShape,
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("reason"),
+      // keep vetoes every rule that would act on the thread
+      action: z.union([z.literal("keep"), threadActionSchema]),
+      // Only act on threads once they haven't been updated for this long
+      olderThan: durationSchema.optional(),
+      ...ruleScopeShape,
+      // The notification reasons the rule acts on
+      reasons: z.array(z.string().min(1)).min(1),
+    })
+    .strict(),
+  z.object({ type: z.literal("closed-issue"), ...filterRuleShape }).strict(),
+  z
+    .object({
+      type: z.literal("release"),
+      watchReleasesOnlyFor: z.array(z.string().min(1)).default([]),
+      ...filterRuleShape,
+    })
+    .strict(),
+  z
+    .object({ type: z.literal("closed-discussion"), ...filterRuleShape })
+    .strict(),
+  z
+    .object({ type: z.literal("superseded-check-suite"), ...filterRuleShape })
+    .strict(),
+  z.object({ type: z.literal("any-thread"), ...filterRuleShape }).strict(),
+  legacyBotRuleSchema("renovate-pr"),
+  legacyBotRuleSchema("dependabot-pr"),
+  legacyBotRuleSchema("plugins-platform-bot-pr"),
+]);
+
+export type FilterRuleConfig = z.infer<typeof filterRuleSchema>;
+
+// What a "match" rule tests. Leaves check one property of the thread (or
+// whether a built-in rule matches it) and all/any/not combine them.
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { reasons: string[] }
+  | { repos: string[] }
+  | { orgs: string[] }
+  | { subjectTypes: string[] }
+  | { olderThan: string }
+  | { rule: FilterRuleConfig };
+
+const conditionSchema: z.ZodType<RuleCondition, z.ZodTypeDef, unknown> = z.lazy(
+  () =>
+    z.union([
+      z.object({ all: z.array(conditionSchema).min(1) }).strict(),
+      z.object({ any: z.array(conditionSchema).min(1) }).strict(),
+      z.object({ not: conditionSchema }).strict(),
+      z.object({ reasons: z.array(z.string().min(1)).min(1) }).strict(),
+      z.object({ repos: patternsSchema }).strict(),
+      z.object({ orgs: patternsSchema }).strict(),
+      z.object({ subjectTypes: z.array(z.string().min(1)).min(1) }).strict(),
+      z.object({ olderThan: durationSchema }).strict(),
+      z.object({ rule: filterRuleSchema }).strict(),
+    ])
+);
+
+// A rule inside a condition is always evaluated as part of it, so an
+// "enabled: false" there would silently have no effect
+function rejectDisabledNestedRules(
+  condition: RuleCondition,
+  path: Array<string | number>,
+  ctx: z.RefinementCtx
+): void {
+  if ("all" in condition) {
+    condition.all.forEach((child, index) =>
+      rejectDisabledNestedRules(child, [...path, "all", index], ctx)
+    );
+  } else if ("any" in condition) {
+    condition.any.forEach((child, index) =>
+      rejectDisabledNestedRules(child, [...path, "any", index], ctx)
+    );
+  } else if ("not" in condition) {
+    rejectDisabledNestedRules(condition.not, [...path, "not"], ctx);
+  } else if ("rule" in condition && !condition.rule.enabled) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [...path, "rule", "enabled"],
+      message:
+        "Rules inside a match condition can't be disabled, remove the condition or disable the match rule",
+    });
+  }
+}
+
+const ruleSchema = z
+  .discriminatedUnion("type", [
+    ...filterRuleSchema.options,
+    z
+      .object({
+        type: z.literal("match"),
+        // keep vetoes every rule that would act on the thread
+        action: z.union([z.literal("keep"), threadActionSchema]),
+        when: conditionSchema,
+        ...ruleScopeShape,
+      })
+      .strict(),
+  ])
+  .superRefine((rule, ctx) => {
+    if (rule.type === "match") {
+      rejectDisabledNestedRules(rule.when, ["when"], ctx);
+    }
+  });
+
+export const configSchema = z
+  .object({
+    // When omitted, every subject type handler contributes its default rules
+    rules: z.array(ruleSchema).optional(),
+    // The repositories and organizations whose threads are processed at all;
+    // an excluded repository is never touched, whatever the rules say
+    scope: z
+      .object({
+        include: repoSelectorSchema.optional(),
+        exclude: repoSelectorSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    // Where every decision is appended as JSON lines, or false to disable
+    auditLog: z.union([z.string().min(1), z.literal(false)]).optional(),
+    // Directory holding the threads each run marked as done, used by undo
+    runHistoryDir: z.string().min(1).optional(),
+    // How many GitHub requests run at the same time when fetching details
+    // and marking threads as done
+    concurrency: z.number().int().min(1).max(32).optional(),
+    // Fetch PR details with one REST call each or in batched GraphQL queries
+    enrichment: z.enum(["rest", "graphql"]).optional(),
+    // How review requests to the user's teams are matched
+    teams: z
+      .object({
+        // Whether a request to a parent team counts (default: true)
+        parentTeamRequestsCountAsInvolvement: z.boolean().optional(),
+        // Policy per "org/slug" (globs allowed): owner, interested or ignore
+        policies: z
+          .record(z.enum(["owner", "interested", "ignore"]))
+          .optional(),
+        // Policy for teams without an entry (default: owner)
+        defaultPolicy: z.enum(["owner", "interested", "ignore"]).optional(),
+      })
+      .strict()
+      .optional(),
+    // Limits that stop a run before it acts, e.g. after a broken rule change
+    safety: z
+      .object({
+        maxActions: z.number().int().min(0).optional(),
+        maxActionsPercent: z.number().min(0).max(100).optional(),
+        // Stop when the user's teams can't be loaded (default: false)
+        requireTeams: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    // Directory for the team and HTTP caches, and how long teams are cached
+    cacheDir: z.string().min(1).optional(),
+    cacheTTLHours: z.number().positive().optional(),
+    // On-disk cache of subject details, or false to always fetch them
+    httpCache: z
+      .union([
+        z.literal(false),
+        z
+          .object({
+            maxAgeDays: z.number().positive().optional(),
+            maxSizeMB: z.number().positive().optional(),
+          })
+          .strict(),
+      ])
+      .optional(),
+  })
+  .strict();
+
+export type RuleConfig = z.infer<typeof ruleSchema>;
+export type RuleType = RuleConfig["type"];
+export type NotificationsConfig = z.infer<typeof configSchema>;
+
+export const DEFAULT_CONFIG: NotificationsConfig = {};
+
+export const DEFAULT_CONCURRENCY = 4;
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+export interface LoadedConfig {
+  config: NotificationsConfig;
+  source: string | null; // null when the built-in defaults are used
+}
+
+export async function findConfigFile(
+  searchDirs: string[] = [process.cwd(), os.homedir()]
+): Promise<string | null> {
+  for (const dir of searchDirs) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, fileName);
+      if (await fs.pathExists(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+export function parseConfig(
+  content: string,
+  source: string
+): NotificationsConfig {
+  let raw: unknown;
+  try {
+    raw = source.endsWith(".json") ? JSON.parse(content) : YAML.parse(content);
+  } catch (error) {
+    throw new ConfigError(
+      `Failed to parse config file ${source}: ${(error as Error).message}`
+    );
+  }
+
+  const result = configSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => {
+        const location =
+          issue.path.length > 0 ? issue.path.join(".") : "(root)";
+        return `  - ${location}: ${issue.message}`;
+      })
+      .join("\n");
+    throw new ConfigError(`Invalid config file ${source}:\n${issues}`);
+  }
+
+  return result.data;
+}
+
+export async function loadConfig(
+  logger: Logger,
+  configPath?: string
+): Promise<LoadedConfig> {
+  let source: string | null;
+
+  if (configPath) {
+    source = path.resolve(configPath);
+    if (!(await fs.pathExists(source))) {
+      throw new ConfigError(`Config file not found: ${source}`);
+    }
+  } else {
+    source = await findConfigFile();
+  }
+
+  if (!source) {
+    logger.debug("No config file found, using default rules");
+    return { config: DEFAULT_CONFIG, source: null };
+  }
+
+  const content = await fs.readFile(source, "utf8");
+  const config = parseConfig(content, source);
+  logger.info(
+    config.rules
+      ? `Loaded ${config.rules.length} rules from ${source}`
+      : `Loaded config from ${source}, using default rules`
+  );
+  return { config, source };
+}
+
+// Adds a rule to the end of the config file, creating the file in the current
+// directory when there is none. A file without a rules list gets the rules
+// currently in effect first, because a rules list replaces the defaults.
+export async function appendRuleToConfig(
+  source: string | null,
+  rule: RuleConfig,
+  currentRules: RuleConfig[]
+): Promise<string> {
+  const target = source ?? path.resolve(CONFIG_FILE_NAMES[0]);
+
+  if (target.endsWith(".json")) {
+    const raw = (await fs.pathExists(target)) ? await fs.readJson(target) : {};
+    raw.rules = [...(raw.rules ?? currentRules), rule];
+    await fs.writeJson(target, raw, { spaces: 2 });
+    return target;
+  }
+
+  // Edit the YAML document in place so comments and formatting survive
+  const document = (await fs.pathExists(target))
+    ? YAML.parseDocument(await fs.readFile(target, "utf8"))
+    : new YAML.Document({});
+  if (!document.has("rules")) {
+    document.set("rules", document.createNode(currentRules));
+  }
+  document.addIn(["rules"], document.createNode(rule));
+  await fs.writeFile(target, document.toString());
+  return target;
+}
@@ -0,0 +1,353 @@
+import { parseConfig, RuleConfig } from "./config";
+import {
+  collectRuleTypes,
+  createFilters,
+  DEFAULT_BOT_LOGINS,
+} from "./filter-factory";
+import {
+  CompositeFilter,
+  DEFAULT_TEAM_MATCH_OPTIONS,
+} from "./notification-filters";
+import { repoScope } from "./rule-conditions";
+import {
+  GitHubNotification,
+  Logger,
+  PullRequestDetails,
+  SubjectDetails,
+} from "./types";
+
+const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
+
+function decide(
+  rules: RuleConfig[],
+  notification: GitHubNotification,
+  details: SubjectDetails
+) {
+  const filters = createFilters(rules, {
+    currentUser: "me",
+    getUserTeams: () => [],
+    teamMatch: DEFAULT_TEAM_MATCH_OPTIONS,
+  });
+  return new CompositeFilter(filters, logger).decide(notification, details);
+}
+
+function rulesFrom(yaml: string): RuleConfig[] {
+  return parseConfig(yaml, "config.yml").rules ?? [];
+}
+
+function notification(repo: string, reason: string): GitHubNotification {
+  const [owner, name] = repo.split("/");
+  return {
+    id: "1",
+    unread: true,
+    reason,
+    updated_at: "2024-01-01T00:00:00Z",
+    last_read_at: null,
+    subject: {
+      title: "Fix the build",
+      url: `https://api.github.com/repos/${repo}/pulls/42`,
+      latest_comment_url: null,
+      type: "PullRequest",
+    },
+    repository: {
+      id: 1,
+      name,
+      full_name: repo,
+      owner: { login: owner, id: 1 },
+    },
+    url: "https://api.github.com/notifications/threads/1",
+    subscription_url:
+      "https://api.github.com/notifications/threads/1/subscription",
+  };
+}
+
+const mergedPullRequest: PullRequestDetails = {
+  id: 1,
+  number: 42,
+  state: "closed",
+  merged: true,
+  merged_at: "2024-01-01T00:00:00Z",
+  closed_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+  head: { sha: "head-sha" },
+  user: { type: "User", login: "someone-else", id: 2 },
+  requested_reviewers: [],
+  requested_teams: [],
+  assignees: [],
+  base: { repo: { owner: { login: "org-a" } } },
+};
+
+describe("match rules", () => {
+  const rules = rulesFrom(`
+rules:
+  - type: merged-closed-pr
+  - type: match
+    name: keep-service-repos
+    action: keep
+    when:
+      any:
+        - repos: [org-a/service]
+        - all:
+            - reasons: [mention]
+            - not:
+                subjectTypes: [CheckSuite]
+`);
+
+  it("keeps threads matched by a nested keep rule", () => {
+    const decision = decide(
+      rules,
+      notification("org-a/service", "subscribed"),
+      { pullRequest: mergedPullRequest }
+    );
+
+    expect(decision.action).toBe("keep");
+    expect(decision.rule).toBe("keep-service-repos");
+  });
+
+  it("keeps threads matched through all and not", () => {
+    const decision = decide(rules, notification("org-a/app", "mention"), {
+      pullRequest: mergedPullRequest,
+    });
+
+    expect(decision.action).toBe("keep");
+  });
+
+  it("leaves other threads to the built-in rules", () => {
+    const decision = decide(rules, notification("org-a/app", "subscribed"), {
+      pullRequest: mergedPullRequest,
+    });
+
+    expect(decision.action).toBe("done");
+    expect(decision.rule).toBe("merged-closed-pr");
+  });
+
+  it("can use a built-in rule as a condition", () => {
+    const nested = rulesFrom(`
+rules:
+  - type: match
+    action: done
+    when:
+      all:
+        - rule: { type: stale-open-pr }
+        - repos: [org-a/app]
+`);
+
+    expect(collectRuleTypes(nested)).toEqual(
+      new Set(["match", "stale-open-pr"])
+    );
+    const openPullRequest: PullRequestDetails = {
+      ...mergedPullRequest,
+      state: "open",
+      merged: false,
+    };
+    const approved = [
+      {
+        id: 1,
+        user: { login: "me" },
+        state: "APPROVED" as const,
+        commit_id: "head-sha",
+      },
+    ];
+
+    expect(
+      decide(nested, notification("org-a/app", "subscribed"), {
+        pullRequest: openPullRequest,
+        pullRequestReviews: approved,
+      }).action
+    ).toBe("done");
+    expect(
+      decide(nested, notification("org-a/other", "subscribed"), {
+        pullRequest: openPullRequest,
+        pullRequestReviews: approved,
+      }).action
+    ).toBe("keep");
+  });
+
+  it("rejects unknown condition keys", () => {
+    expect(() =>
+      rulesFrom(`
+rules:
+  - type: match
+    action: keep
+    when:
+      author: me
+`)
+    ).toThrow("Invalid config file");
+  });
+});
+
+describe("repository and organization patterns", () => {
+  const rules = rulesFrom(`
+rules:
+  - type: match
+    action: keep
+    when:
+      any:
+        - repos: ["org-a/service-*"]
+        - orgs: ["/^private-/"]
+  - type: merged-closed-pr
+    orgs: [org-a, private-*]
+`);
+  const done = (repo: string) =>
+    decide(rules, notification(repo, "subscribed"), {
+      pullRequest: mergedPullRequest,
+    }).action;
+
+  it("matches repositories with globs", () => {
+    expect(done("org-a/service-api")).toBe("keep");
+    expect(done("org-a/app")).toBe("done");
+  });
+
+  it("matches organizations with regular expressions", () => {
+    expect(done("private-tools/app")).toBe("keep");
+  });
+
+  it("limits a rule to organizations", () => {
+    expect(done("org-b/app")).toBe("keep");
+  });
+
+  it("rejects invalid regular expressions", () => {
+    expect(() =>
+      rulesFrom(`
+rules:
+  - type: merged-closed-pr
+    repos: ["/(/"]
+`)
+    ).toThrow("Invalid regular expression");
+  });
+});
+
+describe("repoScope", () => {
+  const config = parseConfig(
+    `
+scope:
+  include:
+    orgs: [org-a, org-b]
+  exclude:
+    repos: [org-a/monorepo]
+`,
+    "config.yml"
+  );
+  const scope = repoScope(config.scope ?? {});
+  const inScope = (repo: string) =>
+    scope(notification(repo, "subscribed"), {}).matched;
+
+  it("includes the listed organizations", () => {
+    expect(inScope("org-a/app")).toBe(true);
+    expect(inScope("org-b/app")).toBe(true);
+    expect(inScope("org-c/app")).toBe(false);
+  });
+
+  it("lets excludes win over includes", () => {
+    expect(inScope("org-a/monorepo")).toBe(false);
+  });
+});
+
+describe("rule actions", () => {
+  it("marks threads as done by default", () => {
+    const decision = decide(
+      rulesFrom(`
+rules:
+  - type: merged-closed-pr
+`),
+      notification("org-a/app", "subscribed"),
+      { pullRequest: mergedPullRequest }
+    );
+
+    expect(decision.threadAction).toBe("done");
+  });
+
+  it("applies the action of the rule that decided", () => {
+    const rules = rulesFrom(`
+rules:
+  - type: reason
+    reasons: [ci_activity]
+    action: read
+  - type: merged-closed-pr
+    action: unsubscribe+done
+`);
+
+    expect(
+      decide(rules, notification("org-a/app", "ci_activity"), {
+        pullRequest: mergedPullRequest,
+      }).threadAction
+    ).toBe("read");
+    expect(
+      decide(rules, notification("org-a/app", "subscribed"), {
+        pullRequest: mergedPullRequest,
+      }).threadAction
+    ).toBe("unsubscribe+done");
+  });
+
+  it("has no action for kept threads", () => {
+    const decision = decide(
+      rulesFrom(`
+rules:
+  - type: match
+    action: keep
+    when:
+      reasons: [mention]
+  - type: merged-closed-pr
+    action: mute
+`),
+      notification("org-a/app", "mention"),
+      { pullRequest: mergedPullRequest }
+    );
+
+    expect(decision.action).toBe("keep");
+    expect(decision.threadAction).toBeNull();
+  });
+});
+
+describe("bot rules", () => {
+  function botPullRequest(login: string): PullRequestDetails {
+    return {
+      ...mergedPullRequest,
+      state: "open",
+      merged: false,
+      merged_at: null,
+      closed_at: null,
+      user: { type: "Bot", login, id: 3 },
+    };
+  }
+
+  function decideFor(yaml: string, login: string) {
+    return decide(rulesFrom(yaml), notification("org-a/app", "subscribed"), {
+      pullRequest: botPullRequest(login),
+    }).action;
+  }
+
+  it("matches the shorthand rules' own bot logins", () => {
+    expect(
+      decideFor("rules: [{ type: dependabot-pr }]", "dependabot[bot]")
+    ).toBe("done");
+    expect(decideFor("rules: [{ type: renovate-pr }]", "renovate[bot]")).toBe(
+      "done"
+    );
+    expect(
+      decideFor("rules: [{ type: renovate-pr }]", "renovate-sh-app[bot]")
+    ).toBe("done");
+    expect(decideFor("rules: [{ type: renovate-pr }]", "dependabot[bot]")).toBe(
+      "keep"
+    );
+  });
+
+  it("lets a shorthand rule match a different login", () => {
+    const yaml =
+      'rules: [{ type: dependabot-pr, login: "my-dependabot[bot]" }]';
+
+    expect(decideFor(yaml, "my-dependabot[bot]")).toBe("done");
+    expect(decideFor(yaml, "dependabot[bot]")).toBe("keep");
+  });
+
+  it("matches every known bot without configured logins", () => {
+    for (const login of DEFAULT_BOT_LOGINS) {
+      expect(decideFor("rules: [{ type: bot-author-pr }]", login)).toBe("done");
+    }
+  });
+});
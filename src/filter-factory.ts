@@ -0,0 +1,198 @@
+import {
+  FilterRuleConfig,
+  LegacyBotRuleType,
+  RuleCondition,
+  RuleConfig,
+  RuleType,
+} from "./config";
+import {
+  AnyThreadFilter,
+  BotAuthorPRFilter,
+  ClosedDiscussionFilter,
+  ClosedIssueFilter,
+  MatchFilter,
+  MergedClosedPRFilter,
+  ReasonFilter,
+  ReleaseFilter,
+  ScopedFilter,
+  StaleOpenPRFilter,
+  SupersededCheckSuiteFilter,
+  TeamMatchOptions,
+} from "./notification-filters";
+import {
+  allOf,
+  anyOf,
+  Condition,
+  filterMatches,
+  not,
+  olderThan,
+  orgMatches,
+  reasonIn,
+  repoMatches,
+  subjectTypeIn,
+} from "./rule-conditions";
+import { parseDuration } from "./time";
+import { GitHubTeam, NotificationFilter } from "./types";
+
+export interface FilterFactoryContext {
+  currentUser: string;
+  getUserTeams: () => GitHubTeam[] | null;
+  teamMatch: TeamMatchOptions;
+}
+
+const LEGACY_BOT_LOGINS: Record<LegacyBotRuleType, string[]> = {
+  "renovate-pr": ["renovate-sh-app[bot]", "renovate[bot]"],
+  "dependabot-pr": ["dependabot[bot]"],
+  "plugins-platform-bot-pr": ["grafana-plugins-platform-bot[bot]"],
+};
+
+// Matched by a "bot-author-pr" rule that doesn't list its own logins
+export const DEFAULT_BOT_LOGINS = Object.values(LEGACY_BOT_LOGINS).flat();
+
+function createFilter(
+  rule: RuleConfig,
+  context: FilterFactoryContext
+): NotificationFilter {
+  const { currentUser, getUserTeams, teamMatch } = context;
+
+  switch (rule.type) {
+    case "merged-closed-pr":
+      return new MergedClosedPRFilter(currentUser, getUserTeams, teamMatch);
+    case "bot-author-pr":
+      return new BotAuthorPRFilter(
+        currentUser,
+        getUserTeams,
+        {
+          logins: rule.logins ?? DEFAULT_BOT_LOGINS,
+          teamReviewRequestsCountAsInvolvement:
+            rule.teamReviewRequestsCountAsInvolvement,
+        },
+        teamMatch
+      );
+    case "stale-open-pr":
+      return new StaleOpenPRFilter(
+        currentUser,
+        getUserTeams,
+        {
+          doneWhenApproved: rule.doneWhenApproved,
+          staleAfterDays: rule.staleAfterDays,
+        },
+        teamMatch
+      );
+    case "reason":
+      return new ReasonFilter({
+        reasons: rule.reasons,
+        action: rule.action === "keep" ? "keep" : "done",
+        olderThanMs: rule.olderThan ? parseDuration(rule.olderThan) : null,
+      });
+    case "match":
+      return new MatchFilter(
+        createCondition(rule.when, context),
+        rule.action === "keep" ? "keep" : "done"
+      );
+    case "closed-issue":
+      return new ClosedIssueFilter(currentUser);
+    case "release":
+      return new ReleaseFilter(rule.watchReleasesOnlyFor);
+    case "closed-discussion":
+      return new ClosedDiscussionFilter(currentUser);
+    case "superseded-check-suite":
+      return new SupersededCheckSuiteFilter();
+    case "any-thread":
+      return new AnyThreadFilter();
+    case "renovate-pr":
+    case "dependabot-pr":
+    case "plugins-platform-bot-pr":
+      return new BotAuthorPRFilter(
+        currentUser,
+        getUserTeams,
+        {
+          logins: rule.login ? [rule.login] : LEGACY_BOT_LOGINS[rule.type],
+          teamReviewRequestsCountAsInvolvement: false,
+        },
+        teamMatch
+      );
+  }
+}
+
+function createScopedFilter(
+  rule: RuleConfig,
+  context: FilterFactoryContext
+): NotificationFilter {
+  return new ScopedFilter(
+    rule.name ?? rule.type,
+    createFilter(rule, context),
+    {
+      repos: rule.repos,
+      orgs: rule.orgs,
+      reasons: rule.reasons,
+      subjectTypes: rule.subjectTypes,
+    },
+    rule.action === "keep" ? undefined : rule.action
+  );
+}
+
+function createCondition(
+  condition: RuleCondition,
+  context: FilterFactoryContext
+): Condition {
+  if ("all" in condition) {
+    return allOf(condition.all.map((child) => createCondition(child, context)));
+  }
+  if ("any" in condition) {
+    return anyOf(condition.any.map((child) => createCondition(child, context)));
+  }
+  if ("not" in condition) {
+    return not(createCondition(condition.not, context));
+  }
+  if ("reasons" in condition) {
+    return reasonIn(condition.reasons);
+  }
+  if ("repos" in condition) {
+    return repoMatches(condition.repos);
+  }
+  if ("orgs" in condition) {
+    return orgMatches(condition.orgs);
+  }
+  if ("subjectTypes" in condition) {
+    return subjectTypeIn(condition.subjectTypes);
+  }
+  if ("olderThan" in condition) {
+    return olderThan(parseDuration(condition.olderThan), condition.olderThan);
+  }
+  return filterMatches(createScopedFilter(condition.rule, context));
+}
+
+export function createFilters(
+  rules: RuleConfig[],
+  context: FilterFactoryContext
+): NotificationFilter[] {
+  return rules
+    .filter((rule) => rule.enabled)
+    .map((rule) => createScopedFilter(rule, context));
+}
+
+// Every rule type in use, including the rules nested in match conditions
+export function collectRuleTypes(rules: RuleConfig[]): Set<RuleType> {
+  const types = new Set<RuleType>();
+  const visit = (condition: RuleCondition): void => {
+    if ("all" in condition) {
+      condition.all.forEach(visit);
+    } else if ("any" in condition) {
+      condition.any.forEach(visit);
+    } else if ("not" in condition) {
+      visit(condition.not);
+    } else if ("rule" in condition) {
+      addRule(condition.rule);
+    }
+  };
+  const addRule = (rule: RuleConfig | FilterRuleConfig): void => {
+    types.add(rule.type);
+    if (rule.type === "match") {
+      visit(rule.when);
+    }
+  };
+
+  rules.filter((rule) => rule.enabled).forEach(addRule);
+  return types;
+}
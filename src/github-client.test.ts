@@ -0,0 +1,333 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { TeamCacheManager } from "./cache";
+import { GitHubClient } from "./github-client";
+import { Logger } from "./types";
+
+const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
+
+type Route = { status: number; body: unknown };
+
+// Answers GitHub API requests by path (with the query string, or without it
+// as a fallback), 404 for anything not listed
+function mockGitHub(routes: Record<string, Route>) {
+  return jest.spyOn(global, "fetch").mockImplementation(async (input) => {
+    const url = new URL(
+      typeof input === "string" || input instanceof URL ? input : input.url
+    );
+    const route = routes[url.pathname + url.search] ??
+      routes[url.pathname] ?? {
+        status: 404,
+        body: { message: "Not Found" },
+      };
+    return new Response(JSON.stringify(route.body), {
+      status: route.status,
+      headers: { "content-type": "application/json" },
+    });
+  });
+}
+
+const ok = (body: unknown): Route => ({ status: 200, body });
+const team = (id: number, slug: string) => ({
+  id,
+  name: slug,
+  slug,
+  parent: null,
+});
+
+describe("GitHubClient.getUserTeams", () => {
+  let dir: string;
+  let cacheManager: TeamCacheManager;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "teams-"));
+    cacheManager = new TeamCacheManager(logger, dir);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(dir);
+  });
+
+  it("treats a 404 membership as not a member", async () => {
+    mockGitHub({
+      "/user": ok({ login: "token-owner" }),
+      "/user/orgs": ok([{ login: "org-a", id: 1 }]),
+      "/orgs/org-a/teams": ok([team(1, "core"), team(2, "docs")]),
+      "/orgs/org-a/teams/core/memberships/octocat": ok({ state: "active" }),
+    });
+    const client = new GitHubClient("token", logger, cacheManager);
+
+    const teams = await client.getUserTeams("octocat");
+
+    expect(teams.map((found) => found.slug)).toEqual(["core"]);
+    expect(client.getUncheckedOrgs()).toEqual([]);
+    expect(await cacheManager.getCachedTeams("octocat")).toHaveLength(1);
+  });
+
+  it("marks orgs unchecked on 403s instead of dropping their teams", async () => {
+    mockGitHub({
+      "/user": ok({ login: "token-owner" }),
+      "/user/orgs": ok([
+        { login: "org-a", id: 1 },
+        { login: "org-b", id: 2 },
+        { login: "org-c", id: 3 },
+      ]),
+      "/orgs/org-a/teams": ok([team(1, "core")]),
+      "/orgs/org-a/teams/core/memberships/octocat": ok({ state: "active" }),
+      "/orgs/org-b/teams": {
+        status: 403,
+        body: { message: "Must have admin rights" },
+      },
+      "/orgs/org-c/teams": ok([team(3, "secret"), team(4, "ops")]),
+      "/orgs/org-c/teams/secret/memberships/octocat": {
+        status: 403,
+        body: { message: "Resource not accessible by integration" },
+      },
+      "/orgs/org-c/teams/ops/memberships/octocat": ok({ state: "active" }),
+    });
+    const client = new GitHubClient("token", logger, cacheManager);
+
+    const teams = await client.getUserTeams("octocat");
+
+    expect(teams.map((found) => found.slug)).toEqual(["core"]);
+    expect(client.getUncheckedOrgs()).toEqual([
+      { org: "org-b", reason: "HTTP 403 listing teams" },
+      { org: "org-c", reason: "HTTP 403 checking team secret" },
+    ]);
+    // The next run tries the unchecked orgs again
+    expect(await cacheManager.getCachedTeams("octocat")).toBeNull();
+  });
+
+  it("lists the token owner's teams without scanning the orgs", async () => {
+    const fetchMock = mockGitHub({
+      "/user": ok({ login: "OctoCat" }),
+      "/user/teams": ok([
+        {
+          ...team(3, "web"),
+          parent: { id: 2, name: "platform", slug: "platform" },
+          organization: { login: "org-a", id: 1 },
+        },
+      ]),
+      "/orgs/org-a/teams/platform": ok({
+        ...team(2, "platform"),
+        parent: { id: 1, name: "engineering", slug: "engineering" },
+      }),
+      "/orgs/org-a/teams/engineering": ok(team(1, "engineering")),
+    });
+    const client = new GitHubClient("token", logger, cacheManager);
+
+    const teams = await client.getUserTeams("octocat");
+
+    expect(teams).toEqual([
+      {
+        id: 3,
+        name: "web",
+        slug: "web",
+        organization: { login: "org-a", id: 1 },
+        parent: {
+          id: 2,
+          name: "platform",
+          slug: "platform",
+          parent: {
+            id: 1,
+            name: "engineering",
+            slug: "engineering",
+            parent: null,
+          },
+        },
+      },
+    ]);
+    const paths = fetchMock.mock.calls.map(
+      ([input]) => new URL(String(input)).pathname
+    );
+    expect(paths).not.toContain("/user/orgs");
+    expect(await cacheManager.getCachedTeams("octocat")).toHaveLength(1);
+  });
+
+  it("scans the orgs when the token can't list its own teams", async () => {
+    mockGitHub({
+      "/user": ok({ login: "octocat" }),
+      "/user/teams": { status: 403, body: { message: "Missing read:org" } },
+      "/user/orgs": ok([{ login: "org-a", id: 1 }]),
+      "/orgs/org-a/teams": ok([team(1, "core")]),
+      "/orgs/org-a/teams/core/memberships/octocat": ok({ state: "active" }),
+    });
+    const client = new GitHubClient("token", logger, cacheManager);
+
+    const teams = await client.getUserTeams("octocat");
+
+    expect(teams.map((found) => found.slug)).toEqual(["core"]);
+    expect(client.getUncheckedOrgs()).toEqual([]);
+  });
+});
+
+describe("GitHubClient.getPullRequestReviews", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const review = (id: number, login: string, state: string) => ({
+    id,
+    user: { login },
+    state,
+    commit_id: "head-sha",
+    submitted_at: "2024-01-01T00:00:00Z",
+  });
+
+  it("fetches every page so the user's latest review is found", async () => {
+    const firstPage = [
+      review(1, "octocat", "CHANGES_REQUESTED"),
+      ...Array.from({ length: 99 }, (_, index) =>
+        review(index + 2, "someone-else", "COMMENTED")
+      ),
+    ];
+    mockGitHub({
+      "/repos/org/repo/pulls/1/reviews?per_page=100&page=1": ok(firstPage),
+      "/repos/org/repo/pulls/1/reviews?per_page=100&page=2": ok([
+        review(101, "octocat", "APPROVED"),
+      ]),
+    });
+    const client = new GitHubClient("token", logger);
+
+    const reviews = await client.getPullRequestReviews("org", "repo", 1);
+
+    expect(reviews).toHaveLength(101);
+    expect(
+      reviews.filter((found) => found.user?.login === "octocat").pop()?.state
+    ).toBe("APPROVED");
+  });
+});
+
+describe("GitHubClient.getPullRequestDetailsBatch", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const graphqlPullRequest = {
+    databaseId: 1001,
+    number: 1,
+    state: "MERGED",
+    isDraft: false,
+    merged: true,
+    mergedAt: "2024-01-02T00:00:00Z",
+    closedAt: "2024-01-02T00:00:00Z",
+    updatedAt: "2024-01-02T00:00:00Z",
+    headRefOid: "head-sha",
+    author: { __typename: "Bot", login: "renovate", databaseId: 29139614 },
+    reviewRequests: {
+      nodes: [
+        {
+          requestedReviewer: {
+            __typename: "User",
+            login: "octocat",
+            databaseId: 1,
+          },
+        },
+        {
+          requestedReviewer: {
+            __typename: "Bot",
+            login: "copilot",
+            databaseId: 2,
+          },
+        },
+        {
+          requestedReviewer: {
+            __typename: "Mannequin",
+            login: "imported-user",
+            databaseId: 3,
+          },
+        },
+        { requestedReviewer: { __typename: "SomethingNew" } },
+        { requestedReviewer: null },
+        {
+          requestedReviewer: {
+            __typename: "Team",
+            name: "Frontend Guild",
+            slug: "frontend-guild",
+            databaseId: 4,
+          },
+        },
+      ],
+    },
+    assignees: { nodes: [{ login: "someone-else", databaseId: 5 }] },
+    repository: { owner: { login: "org" } },
+  };
+
+  it("maps GraphQL pull requests to the REST shape", async () => {
+    mockGitHub({
+      "/graphql": ok({ data: { pr0: { pullRequest: graphqlPullRequest } } }),
+    });
+    const client = new GitHubClient("token", logger);
+
+    const [details] = await client.getPullRequestDetailsBatch([
+      { owner: "org", repo: "repo", pullNumber: 1 },
+    ]);
+
+    expect(details).toEqual({
+      id: 1001,
+      number: 1,
+      state: "closed",
+      draft: false,
+      merged: true,
+      merged_at: "2024-01-02T00:00:00Z",
+      closed_at: "2024-01-02T00:00:00Z",
+      updated_at: "2024-01-02T00:00:00Z",
+      head: { sha: "head-sha" },
+      user: { type: "Bot", login: "renovate[bot]", id: 29139614 },
+      requested_reviewers: [
+        { login: "octocat", id: 1 },
+        { login: "copilot[bot]", id: 2 },
+        { login: "imported-user", id: 3 },
+      ],
+      requested_teams: [
+        { name: "Frontend Guild", slug: "frontend-guild", id: 4 },
+      ],
+      assignees: [{ login: "someone-else", id: 5 }],
+      base: { repo: { owner: { login: "org" } } },
+    });
+  });
+
+  it("returns null for PRs that come back as errors next to the data", async () => {
+    mockGitHub({
+      "/graphql": ok({
+        data: {
+          pr0: { pullRequest: null },
+          pr1: { pullRequest: { ...graphqlPullRequest, number: 2 } },
+          pr2: null,
+        },
+        errors: [
+          {
+            type: "NOT_FOUND",
+            path: ["pr0", "pullRequest"],
+            message: "Could not resolve to a PullRequest with the number of 9.",
+          },
+          {
+            type: "FORBIDDEN",
+            path: ["pr2"],
+            message: "Resource not accessible by integration",
+          },
+        ],
+      }),
+    });
+    const client = new GitHubClient("token", logger);
+
+    const details = await client.getPullRequestDetailsBatch([
+      { owner: "org", repo: "repo", pullNumber: 9 },
+      { owner: "org", repo: "repo", pullNumber: 2 },
+      { owner: "secret", repo: "repo", pullNumber: 3 },
+    ]);
+
+    expect(details.map((pullRequest) => pullRequest?.number ?? null)).toEqual([
+      null,
+      2,
+      null,
+    ]);
+  });
+});
@@ -1,24 +1,188 @@
 import { Octokit } from '@octokit/rest';
-import { GitHubNotification, PullRequestDetails, GitHubTeam, Logger } from './types';
+import {
+  GitHubNotification,
+  PullRequestDetails,
+  PullRequestReview,
+  IssueDetails,
+  ReleaseDetails,
+  DiscussionDetails,
+  WorkflowRunSummary,
+  NotificationPoll,
+  GitHubTeam,
+  GitHubTeamParent,
+  UncheckedOrg,
+  ThreadSubscription,
+  Logger,
+} from './types';
 import { TeamCacheManager } from './cache';
+import { OctokitError, RateLimiter } from './rate-limiter';
+import { HttpCache } from './http-cache';
+
+// Pull requests per GraphQL query, well below GitHub's node limits
+const PULL_REQUEST_BATCH_SIZE = 50;
+
+const PULL_REQUEST_GRAPHQL_FIELDS = `
+  databaseId
+  number
+  state
+  isDraft
+  merged
+  mergedAt
+  closedAt
+  updatedAt
+  headRefOid
+  author { __typename login ... on User { databaseId } ... on Bot { databaseId } }
+  reviewRequests(first: 100) {
+    nodes {
+      requestedReviewer {
+        __typename
+        ... on User { login databaseId }
+        ... on Bot { login databaseId }
+        ... on Mannequin { login databaseId }
+        ... on Team { name slug databaseId }
+      }
+    }
+  }
+  assignees(first: 100) { nodes { login databaseId } }
+  repository { owner { login } }
+`;
+
+type GraphQLActor = { __typename: string; login: string; databaseId?: number };
+
+// Reviewer types without a fragment in the query come back without a login
+type GraphQLReviewer = Omit<GraphQLActor, 'login'> & { login?: string; name?: string; slug?: string };
+
+type GraphQLPullRequest = {
+  databaseId: number;
+  number: number;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  isDraft: boolean;
+  merged: boolean;
+  mergedAt: string | null;
+  closedAt: string | null;
+  updatedAt: string;
+  headRefOid: string;
+  author: GraphQLActor | null;
+  reviewRequests: {
+    nodes: Array<{ requestedReviewer: GraphQLReviewer | null }>;
+  };
+  assignees: { nodes: Array<{ login: string; databaseId: number }> };
+  repository: { owner: { login: string } };
+};
+
+// GraphQL leaves the [bot] suffix off bot logins, REST includes it
+function toRestLogin(actor: GraphQLActor): string {
+  return actor.__typename === 'Bot' ? `${actor.login}[bot]` : actor.login;
+}
+
+// Maps a GraphQL pull request to the REST shape the filters work with
+function toPullRequestDetails(pr: GraphQLPullRequest): PullRequestDetails {
+  const reviewers = pr.reviewRequests.nodes
+    .map(node => node.requestedReviewer)
+    .filter((reviewer): reviewer is GraphQLReviewer => reviewer !== null);
+  
+  return {
+    id: pr.databaseId,
+    number: pr.number,
+    state: pr.state === 'OPEN' ? 'open' : 'closed',
+    draft: pr.isDraft,
+    merged: pr.merged,
+    merged_at: pr.mergedAt,
+    closed_at: pr.closedAt,
+    updated_at: pr.updatedAt,
+    head: { sha: pr.headRefOid },
+    user: pr.author
+      ? { type: pr.author.__typename === 'Bot' ? 'Bot' : 'User', login: toRestLogin(pr.author), id: pr.author.databaseId ?? 0 }
+      : { type: 'User', login: 'ghost', id: 0 },
+    requested_reviewers: reviewers
+      .filter((reviewer): reviewer is GraphQLActor => reviewer.__typename !== 'Team' && reviewer.login !== undefined)
+      .map(reviewer => ({ login: toRestLogin(reviewer), id: reviewer.databaseId ?? 0 })),
+    requested_teams: reviewers
+      .filter(reviewer => reviewer.__typename === 'Team')
+      .map(team => ({ name: team.name ?? '', slug: team.slug ?? '', id: team.databaseId ?? 0 })),
+    assignees: pr.assignees.nodes.map(assignee => ({ login: assignee.login, id: assignee.databaseId })),
+    base: { repo: { owner: { login: pr.repository.owner.login } } },
+  };
+}
+
+// The fields of a team needed to walk up its hierarchy
+type TeamSummary = {
+  id: number;
+  name: string;
+  slug: string;
+  parent?: TeamSummary | null;
+};
+
+// Guards against cycles while walking up team hierarchies
+const MAX_TEAM_DEPTH = 10;
+
+function describeTeamLookupError(error: unknown, action: string): string {
+  const status = (error as OctokitError).status;
+  return status ? `HTTP ${status} ${action}` : `${action} failed`;
+}
+
+// GitHub asks clients not to poll notifications more often than this
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
 
 export class GitHubClient {
   private octokit: Octokit;
   private logger: Logger;
   private cacheManager: TeamCacheManager;
+  private rateLimiter: RateLimiter;
+  private httpCache: HttpCache | null;
+  private authenticatedLogin: string | null | undefined; // undefined until looked up
+  private uncheckedOrgs: Array<UncheckedOrg & { id: number }> = [];
 
-  constructor(token: string, logger: Logger, cacheManager?: TeamCacheManager) {
+  constructor(token: string, logger: Logger, cacheManager?: TeamCacheManager, httpCache?: HttpCache) {
     this.octokit = new Octokit({
       auth: token,
     });
     this.logger = logger;
     this.cacheManager = cacheManager || new TeamCacheManager(logger);
+    this.rateLimiter = new RateLimiter(logger);
+    this.httpCache = httpCache ?? null;
+    
+    // Every REST and GraphQL call goes through the rate limiter
+    this.octokit.hook.wrap('request', (request, options) =>
+      this.rateLimiter.schedule(
+        `${options.method} ${options.url}`,
+        options.url === '/graphql' ? 'graphql' : 'core',
+        async () => request(options)
+      )
+    );
+  }
+
+  // Runs a GET for subject details through the HTTP cache when there is one
+  private async cachedGet<T>(
+    key: string,
+    request: (headers: Record<string, string>) => Promise<{ data: T; headers: Record<string, string | number | undefined> }>
+  ): Promise<T> {
+    if (!this.httpCache) {
+      const { data } = await request({});
+      return data;
+    }
+    return this.httpCache.fetch(key, request);
+  }
+
+  // Evicts old entries and summarizes how the HTTP cache did this run
+  async finishHttpCache(): Promise<string | null> {
+    if (!this.httpCache) {
+      return null;
+    }
+    await this.httpCache.prune();
+    const { revalidated, fetched } = this.httpCache.getCounters();
+    return `${revalidated} revalidated (304), ${fetched} fetched`;
+  }
+
+  // Remaining API budget per rate limit resource, as seen in the last responses
+  getRateLimitSummary(): string | null {
+    return this.rateLimiter.formatBudgets();
   }
 
   async getNotifications(): Promise<GitHubNotification[]> {
     try {
       this.logger.debug('Fetching unread threads...');
-      const allNotifications = await this.fetchAllNotifications();
+      const { notifications: allNotifications } = await this.fetchAllNotifications();
       
       this.logger.info(`Found ${allNotifications.length} unread threads`);
       return allNotifications;
@@ -28,6 +192,21 @@ export class GitHubClient {
     }
   }
 
+  async pollNotifications(lastModified: string | null): Promise<NotificationPoll> {
+    try {
+      this.logger.debug(`Polling unread threads (last modified: ${lastModified ?? 'never'})`);
+      const poll = await this.fetchAllNotifications(lastModified ?? undefined);
+      
+      if (!poll.notModified) {
+        this.logger.debug(`Found ${poll.notifications.length} unread threads`);
+      }
+      return poll;
+    } catch (error) {
+      this.logger.error('Failed to poll threads:', error);
+      throw error;
+    }
+  }
+
   async getPullRequestDetails(
     owner: string,
     repo: string,
@@ -35,15 +214,219 @@ export class GitHubClient {
   ): Promise<PullRequestDetails> {
     try {
       this.logger.debug(`Fetching PR details for ${owner}/${repo}#${pullNumber}`);
-      const { data } = await this.octokit.rest.pulls.get({
+      const data = await this.cachedGet(`GET /repos/${owner}/${repo}/pulls/${pullNumber}`, headers =>
+        this.octokit.rest.pulls.get({
+          owner,
+          repo,
+          pull_number: pullNumber,
+          headers,
+        })
+      );
+      
+      return data as PullRequestDetails;
+    } catch (error) {
+      this.logger.error(`Failed to fetch PR details for ${owner}/${repo}#${pullNumber}:`, error);
+      throw error;
+    }
+  }
+
+  // Every review, oldest first: the user's latest one can be on any page of
+  // a busy PR. Each page is cached and revalidated on its own.
+  async getPullRequestReviews(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<PullRequestReview[]> {
+    const perPage = 100;
+    try {
+      this.logger.debug(`Fetching reviews for ${owner}/${repo}#${pullNumber}`);
+      const reviews: PullRequestReview[] = [];
+      for (let page = 1; ; page++) {
+        const data = await this.cachedGet(`GET /repos/${owner}/${repo}/pulls/${pullNumber}/reviews?page=${page}`, headers =>
+          this.octokit.rest.pulls.listReviews({
+            owner,
+            repo,
+            pull_number: pullNumber,
+            per_page: perPage,
+            page,
+            headers,
+          })
+        );
+        
+        reviews.push(...(data as PullRequestReview[]));
+        if (data.length < perPage) {
+          break;
+        }
+      }
+      
+      return reviews;
+    } catch (error) {
+      this.logger.error(`Failed to fetch reviews for ${owner}/${repo}#${pullNumber}:`, error);
+      throw error;
+    }
+  }
+
+  // Fetches many PRs with one GraphQL query per batch instead of a REST call
+  // each. Results line up with refs; PRs that couldn't be resolved are null.
+  async getPullRequestDetailsBatch(
+    refs: Array<{ owner: string; repo: string; pullNumber: number }>
+  ): Promise<Array<PullRequestDetails | null>> {
+    const results: Array<PullRequestDetails | null> = [];
+    
+    for (let start = 0; start < refs.length; start += PULL_REQUEST_BATCH_SIZE) {
+      const batch = refs.slice(start, start + PULL_REQUEST_BATCH_SIZE);
+      this.logger.debug(`Fetching ${batch.length} PRs with GraphQL (${start + batch.length}/${refs.length})`);
+      
+      const variables: Record<string, string | number> = {};
+      const declarations: string[] = [];
+      const fields = batch.map((ref, index) => {
+        variables[`owner${index}`] = ref.owner;
+        variables[`repo${index}`] = ref.repo;
+        variables[`number${index}`] = ref.pullNumber;
+        declarations.push(`$owner${index}: String!, $repo${index}: String!, $number${index}: Int!`);
+        return `pr${index}: repository(owner: $owner${index}, name: $repo${index}) {
+          pullRequest(number: $number${index}) { ${PULL_REQUEST_GRAPHQL_FIELDS} }
+        }`;
+      });
+      const query = `query(${declarations.join(', ')}) { ${fields.join('\n')} }`;
+      
+      let data: Record<string, { pullRequest: GraphQLPullRequest | null } | null>;
+      try {
+        data = await this.octokit.graphql(query, variables);
+      } catch (error) {
+        // Missing or inaccessible PRs come back as errors next to the data
+        // for the others
+        const partial = (error as { data?: typeof data }).data;
+        if (!partial) {
+          this.logger.error(`Failed to fetch ${batch.length} PRs with GraphQL:`, error);
+          throw error;
+        }
+        this.logger.debug(`Some PRs could not be fetched with GraphQL: ${(error as Error).message}`);
+        data = partial;
+      }
+      
+      batch.forEach((_, index) => {
+        const pullRequest = data[`pr${index}`]?.pullRequest;
+        results.push(pullRequest ? toPullRequestDetails(pullRequest) : null);
+      });
+    }
+    
+    return results;
+  }
+
+  async getIssueDetails(
+    owner: string,
+    repo: string,
+    issueNumber: number
+  ): Promise<IssueDetails> {
+    try {
+      this.logger.debug(`Fetching issue details for ${owner}/${repo}#${issueNumber}`);
+      const data = await this.cachedGet(`GET /repos/${owner}/${repo}/issues/${issueNumber}`, headers =>
+        this.octokit.rest.issues.get({
+          owner,
+          repo,
+          issue_number: issueNumber,
+          headers,
+        })
+      );
+      
+      return data as IssueDetails;
+    } catch (error) {
+      this.logger.error(`Failed to fetch issue details for ${owner}/${repo}#${issueNumber}:`, error);
+      throw error;
+    }
+  }
+
+  async getReleaseDetails(
+    owner: string,
+    repo: string,
+    releaseId: number
+  ): Promise<ReleaseDetails> {
+    try {
+      this.logger.debug(`Fetching release details for ${owner}/${repo} release ${releaseId}`);
+      const data = await this.cachedGet(`GET /repos/${owner}/${repo}/releases/${releaseId}`, headers =>
+        this.octokit.rest.repos.getRelease({
+          owner,
+          repo,
+          release_id: releaseId,
+          headers,
+        })
+      );
+      
+      return data as ReleaseDetails;
+    } catch (error) {
+      this.logger.error(`Failed to fetch release details for ${owner}/${repo} release ${releaseId}:`, error);
+      throw error;
+    }
+  }
+
+  async getDiscussionDetails(
+    owner: string,
+    repo: string,
+    discussionNumber: number
+  ): Promise<DiscussionDetails> {
+    try {
+      this.logger.debug(`Fetching discussion details for ${owner}/${repo}#${discussionNumber}`);
+      // Discussions are only available through the GraphQL API
+      const { repository } = await this.octokit.graphql<{
+        repository: { discussion: DiscussionDetails | null };
+      }>(
+        `query($owner: String!, $repo: String!, $number: Int!) {
+          repository(owner: $owner, name: $repo) {
+            discussion(number: $number) {
+              number
+              title
+              closed
+              locked
+              isAnswered
+              author { login }
+            }
+          }
+        }`,
+        { owner, repo, number: discussionNumber }
+      );
+      
+      if (!repository.discussion) {
+        throw new Error(`Discussion ${owner}/${repo}#${discussionNumber} not found`);
+      }
+      return repository.discussion;
+    } catch (error) {
+      this.logger.error(`Failed to fetch discussion details for ${owner}/${repo}#${discussionNumber}:`, error);
+      throw error;
+    }
+  }
+
+  async getWorkflowRunsForBranch(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<WorkflowRunSummary[]> {
+    try {
+      this.logger.debug(`Fetching workflow runs for ${owner}/${repo} on branch ${branch}`);
+      const { data } = await this.octokit.rest.actions.listWorkflowRunsForRepo({
         owner,
         repo,
-        pull_number: pullNumber,
+        branch,
+        per_page: 50,
       });
       
-      return data as PullRequestDetails;
+      // Runs are returned newest first
+      return data.workflow_runs as WorkflowRunSummary[];
     } catch (error) {
-      this.logger.error(`Failed to fetch PR details for ${owner}/${repo}#${pullNumber}:`, error);
+      this.logger.error(`Failed to fetch workflow runs for ${owner}/${repo} on branch ${branch}:`, error);
+      throw error;
+    }
+  }
+
+  async getThread(threadId: string): Promise<GitHubNotification> {
+    try {
+      this.logger.debug(`Fetching thread ${threadId}`);
+      const { data } = await this.octokit.rest.activity.getThread({
+        thread_id: parseInt(threadId),
+      });
+      return data as GitHubNotification;
+    } catch (error) {
+      this.logger.error(`Failed to fetch thread ${threadId}:`, error);
       throw error;
     }
   }
@@ -61,6 +444,79 @@ export class GitHubClient {
     }
   }
 
+  async markThreadAsRead(threadId: string): Promise<void> {
+    try {
+      this.logger.debug(`Marking thread ${threadId} as read`);
+      await this.octokit.rest.activity.markThreadAsRead({
+        thread_id: parseInt(threadId),
+      });
+      this.logger.info(`Successfully marked thread ${threadId} as read`);
+    } catch (error) {
+      this.logger.error(`Failed to mark thread ${threadId} as read:`, error);
+      throw error;
+    }
+  }
+
+  async unsubscribeFromThread(threadId: string): Promise<void> {
+    try {
+      this.logger.debug(`Unsubscribing from thread ${threadId}`);
+      await this.octokit.rest.activity.deleteThreadSubscription({
+        thread_id: parseInt(threadId),
+      });
+      this.logger.info(`Successfully unsubscribed from thread ${threadId}`);
+    } catch (error) {
+      this.logger.error(`Failed to unsubscribe from thread ${threadId}:`, error);
+      throw error;
+    }
+  }
+
+  // Ignores all future activity on the thread until resubscribed
+  async muteThread(threadId: string): Promise<void> {
+    try {
+      this.logger.debug(`Muting thread ${threadId}`);
+      await this.octokit.rest.activity.setThreadSubscription({
+        thread_id: parseInt(threadId),
+        ignored: true,
+      });
+      this.logger.info(`Successfully muted thread ${threadId}`);
+    } catch (error) {
+      this.logger.error(`Failed to mute thread ${threadId}:`, error);
+      throw error;
+    }
+  }
+
+  // null when the user has no subscription to the thread, e.g. after
+  // unsubscribing from it
+  async getThreadSubscription(threadId: string): Promise<ThreadSubscription | null> {
+    try {
+      this.logger.debug(`Fetching subscription to thread ${threadId}`);
+      const { data } = await this.octokit.rest.activity.getThreadSubscriptionForAuthenticatedUser({
+        thread_id: parseInt(threadId),
+      });
+      return { subscribed: data.subscribed ?? false, ignored: data.ignored ?? false };
+    } catch (error) {
+      if ((error as OctokitError).status === 404) {
+        return null;
+      }
+      this.logger.error(`Failed to fetch subscription to thread ${threadId}:`, error);
+      throw error;
+    }
+  }
+
+  async resubscribeToThread(threadId: string): Promise<void> {
+    try {
+      this.logger.debug(`Resubscribing to thread ${threadId}`);
+      await this.octokit.rest.activity.setThreadSubscription({
+        thread_id: parseInt(threadId),
+        ignored: false,
+      });
+      this.logger.info(`Successfully resubscribed to thread ${threadId}`);
+    } catch (error) {
+      this.logger.error(`Failed to resubscribe to thread ${threadId}:`, error);
+      throw error;
+    }
+  }
+
   async markAllNotificationsAsRead(): Promise<void> {
     try {
       this.logger.debug('Marking all notifications as read');
@@ -88,67 +544,30 @@ export class GitHubClient {
 
       this.logger.debug(`Fetching teams for user ${username}...`);
       
-      // Try to get the authenticated user's organizations first
-      let orgs;
-      try {
-        orgs = await this.fetchAllOrgsForAuthenticatedUser();
-        this.logger.debug(`Found ${orgs.length} organizations for authenticated user: ${orgs.map(o => o.login).join(', ')}`);
-      } catch (error) {
-        this.logger.debug(`Could not fetch authenticated user's organizations, trying public orgs for ${username}:`, error);
-        // Fallback to public organizations
-        orgs = await this.fetchAllOrgsForUser(username);
-        this.logger.debug(`Found ${orgs.length} public organizations for user ${username}: ${orgs.map(o => o.login).join(', ')}`);
-      }
-      
-      // Then get teams from each organization
-      const allTeams: GitHubTeam[] = [];
-      
-      for (const org of orgs) {
-        this.logger.debug(`Fetching teams for organization: ${org.login}`);
+      // The token owner's teams come from a single endpoint; other users need
+      // a scan of every team in every org
+      let allTeams: GitHubTeam[] | null = null;
+      const authenticatedLogin = await this.getAuthenticatedLogin();
+      if (authenticatedLogin && authenticatedLogin.toLowerCase() === username.toLowerCase()) {
         try {
-          // Fetch all teams with pagination
-          const allOrgTeams = await this.fetchAllTeamsForOrg(org.login);
-          
-          this.logger.debug(`Found ${allOrgTeams.length} teams in organization ${org.login}: ${allOrgTeams.map(t => t.name).join(', ')}`);
-          
-          // Filter teams where the user is a member
-          for (const team of allOrgTeams) {
-            try {
-              const { status } = await this.octokit.rest.teams.getMembershipForUserInOrg({
-                org: org.login,
-                team_slug: team.slug,
-                username,
-              });
-              
-              if (status === 200) {
-                this.logger.debug(`User ${username} is a member of team ${team.name} in org ${org.login}`);
-                allTeams.push({
-                  id: team.id,
-                  name: team.name,
-                  slug: team.slug,
-                  organization: {
-                    login: org.login,
-                    id: org.id,
-                  },
-                });
-              }
-            } catch (error) {
-              // User is not a member of this team, skip
-              this.logger.debug(`User ${username} is not a member of team ${team.name} in org ${org.login}`);
-              continue;
-            }
-          }
+          allTeams = await this.fetchAllTeamsForAuthenticatedUser();
+          this.uncheckedOrgs = [];
         } catch (error) {
-          // Skip organizations where we can't fetch teams
-          this.logger.debug(`Could not fetch teams for organization ${org.login}:`, error);
-          continue;
+          this.logger.warn(`Could not list teams for the authenticated user (the token may lack the read:org scope), scanning organizations instead:`, error);
         }
       }
+      if (allTeams === null) {
+        allTeams = await this.scanTeamsForUser(username);
+      }
+      
+      this.warnUncheckedOrgs();
       
       this.logger.info(`Found ${allTeams.length} teams for user ${username}: ${allTeams.map(t => `${t.name}@${t.organization.login}`).join(', ')}`);
       
-      // Save to cache
-      await this.cacheManager.saveTeamsToCache(username, allTeams);
+      // Save to cache, unless some orgs are missing so the next run retries them
+      if (this.uncheckedOrgs.length === 0) {
+        await this.cacheManager.saveTeamsToCache(username, allTeams);
+      }
       
       return allTeams;
     } catch (error) {
@@ -157,6 +576,198 @@ export class GitHubClient {
     }
   }
 
+  // Checks the orgs left unchecked by the last team lookup again. Teams in the
+  // other orgs are kept as they are, so only the failed orgs cost requests.
+  async retryUncheckedOrgs(username: string, teams: GitHubTeam[]): Promise<GitHubTeam[]> {
+    const retried = this.uncheckedOrgs;
+    if (retried.length === 0) {
+      return teams;
+    }
+    
+    this.logger.info(`Checking team memberships in ${retried.map(unchecked => unchecked.org).join(', ')} again`);
+    this.uncheckedOrgs = [];
+    const retriedOrgs = new Set(retried.map(unchecked => unchecked.org));
+    const allTeams = [
+      ...teams.filter(team => !retriedOrgs.has(team.organization.login)),
+      ...(await this.scanOrgs(retried.map(({ org, id }) => ({ login: org, id })), username)),
+    ];
+    this.warnUncheckedOrgs();
+    
+    if (this.uncheckedOrgs.length === 0) {
+      await this.cacheManager.saveTeamsToCache(username, allTeams);
+    }
+    return allTeams;
+  }
+
+  // Organizations whose team memberships couldn't be checked in the last
+  // team lookup, teams there may be missing
+  getUncheckedOrgs(): UncheckedOrg[] {
+    return this.uncheckedOrgs.map(({ org, reason }) => ({ org, reason }));
+  }
+
+  private warnUncheckedOrgs(): void {
+    if (this.uncheckedOrgs.length > 0) {
+      this.logger.warn(
+        `Could not check team memberships in ${this.uncheckedOrgs.length} organizations: ${this.uncheckedOrgs
+          .map(unchecked => `${unchecked.org} (${unchecked.reason})`)
+          .join(', ')}`
+      );
+    }
+  }
+
+  private async getAuthenticatedLogin(): Promise<string | null> {
+    if (this.authenticatedLogin === undefined) {
+      try {
+        const { data } = await this.octokit.rest.users.getAuthenticated();
+        this.authenticatedLogin = data.login;
+      } catch (error) {
+        this.logger.debug('Could not look up the authenticated user:', error);
+        this.authenticatedLogin = null;
+      }
+    }
+    return this.authenticatedLogin;
+  }
+
+  private async fetchAllTeamsForAuthenticatedUser(): Promise<GitHubTeam[]> {
+    this.logger.debug('Fetching teams of the authenticated user');
+    const teams = await this.octokit.paginate(this.octokit.rest.teams.listForAuthenticatedUser, {
+      per_page: 100,
+    });
+    
+    // Only the direct parent is included, look up the rest of the chain
+    const teamsBySlug = new Map<string, Promise<TeamSummary | null>>();
+    const lookup = (org: string, slug: string) => {
+      const key = `${org}/${slug}`;
+      if (!teamsBySlug.has(key)) {
+        teamsBySlug.set(key, this.fetchTeam(org, slug));
+      }
+      return teamsBySlug.get(key)!;
+    };
+    
+    const allTeams: GitHubTeam[] = [];
+    for (const team of teams) {
+      allTeams.push({
+        id: team.id,
+        name: team.name,
+        slug: team.slug,
+        organization: {
+          login: team.organization.login,
+          id: team.organization.id,
+        },
+        parent: await this.resolveTeamParent(team.organization.login, team.parent, lookup),
+      });
+    }
+    return allTeams;
+  }
+
+  private async fetchTeam(org: string, slug: string): Promise<TeamSummary | null> {
+    try {
+      const { data } = await this.octokit.rest.teams.getByName({ org, team_slug: slug });
+      return data;
+    } catch (error) {
+      this.logger.debug(`Could not fetch team ${org}/${slug}:`, error);
+      return null;
+    }
+  }
+
+  // Follows a team's parents up to the root of its org's hierarchy
+  private async resolveTeamParent(
+    org: string,
+    parent: TeamSummary | null | undefined,
+    lookup: (org: string, slug: string) => Promise<TeamSummary | null>,
+    depth: number = 0
+  ): Promise<GitHubTeamParent | null> {
+    if (!parent || depth >= MAX_TEAM_DEPTH) {
+      return null;
+    }
+    
+    const node = await lookup(org, parent.slug);
+    return {
+      id: parent.id,
+      name: parent.name,
+      slug: parent.slug,
+      parent: await this.resolveTeamParent(org, node?.parent, lookup, depth + 1),
+    };
+  }
+
+  // Checks the user's membership in every team of every org. A 404 means
+  // "not a member"; other errors make the org unchecked instead.
+  private async scanTeamsForUser(username: string): Promise<GitHubTeam[]> {
+    this.uncheckedOrgs = [];
+    
+    // Try to get the authenticated user's organizations first
+    let orgs;
+    try {
+      orgs = await this.fetchAllOrgsForAuthenticatedUser();
+      this.logger.debug(`Found ${orgs.length} organizations for authenticated user: ${orgs.map(o => o.login).join(', ')}`);
+    } catch (error) {
+      this.logger.debug(`Could not fetch authenticated user's organizations, trying public orgs for ${username}:`, error);
+      // Fallback to public organizations
+      orgs = await this.fetchAllOrgsForUser(username);
+      this.logger.debug(`Found ${orgs.length} public organizations for user ${username}: ${orgs.map(o => o.login).join(', ')}`);
+    }
+    
+    // Then get teams from each organization
+    return this.scanOrgs(orgs, username);
+  }
+
+  // Adds the orgs whose memberships couldn't be checked to uncheckedOrgs
+  private async scanOrgs(orgs: Array<{ login: string; id: number }>, username: string): Promise<GitHubTeam[]> {
+    const allTeams: GitHubTeam[] = [];
+    
+    for (const org of orgs) {
+      this.logger.debug(`Fetching teams for organization: ${org.login}`);
+      let allOrgTeams;
+      try {
+        // Fetch all teams with pagination
+        allOrgTeams = await this.fetchAllTeamsForOrg(org.login);
+      } catch (error) {
+        this.uncheckedOrgs.push({ org: org.login, id: org.id, reason: describeTeamLookupError(error, 'listing teams') });
+        continue;
+      }
+      
+      this.logger.debug(`Found ${allOrgTeams.length} teams in organization ${org.login}: ${allOrgTeams.map(t => t.name).join(', ')}`);
+      
+      // Filter teams where the user is a member
+      for (const team of allOrgTeams) {
+        try {
+          const { data } = await this.octokit.rest.teams.getMembershipForUserInOrg({
+            org: org.login,
+            team_slug: team.slug,
+            username,
+          });
+          
+          // Pending invitations don't make the user a member yet
+          if (data.state === 'active') {
+            this.logger.debug(`User ${username} is a member of team ${team.name} in org ${org.login}`);
+            allTeams.push({
+              id: team.id,
+              name: team.name,
+              slug: team.slug,
+              organization: {
+                login: org.login,
+                id: org.id,
+              },
+              parent: await this.resolveTeamParent(org.login, team.parent, async (_, slug) =>
+                allOrgTeams.find(orgTeam => orgTeam.slug === slug) ?? null
+              ),
+            });
+          }
+        } catch (error) {
+          if ((error as OctokitError).status === 404) {
+            this.logger.debug(`User ${username} is not a member of team ${team.name} in org ${org.login}`);
+            continue;
+          }
+          // Without permission for one team we can't trust the rest of the org
+          this.uncheckedOrgs.push({ org: org.login, id: org.id, reason: describeTeamLookupError(error, `checking team ${team.slug}`) });
+          break;
+        }
+      }
+    }
+    
+    return allTeams;
+  }
+
   private async fetchAllOrgsForAuthenticatedUser(): Promise<any[]> {
     const allOrgs: any[] = [];
     let page = 1;
@@ -188,9 +799,6 @@ export class GitHubClient {
         
         page++;
         
-        // Add a small delay to avoid rate limiting
-        await this.delay(100);
-        
       } catch (error) {
         this.logger.error(`Failed to fetch organizations for authenticated user on page ${page}:`, error);
         throw error;
@@ -233,9 +841,6 @@ export class GitHubClient {
         
         page++;
         
-        // Add a small delay to avoid rate limiting
-        await this.delay(100);
-        
       } catch (error) {
         this.logger.error(`Failed to fetch organizations for user ${username} on page ${page}:`, error);
         throw error;
@@ -278,11 +883,8 @@ export class GitHubClient {
         
         page++;
         
-        // Add a small delay to avoid rate limiting
-        await this.delay(100);
-        
       } catch (error) {
-        this.logger.error(`Failed to fetch teams for organization ${orgLogin} on page ${page}:`, error);
+        this.logger.debug(`Failed to fetch teams for organization ${orgLogin} on page ${page}:`, error);
         throw error;
       }
     }
@@ -291,10 +893,12 @@ export class GitHubClient {
     return allTeams;
   }
 
-  private async fetchAllNotifications(): Promise<GitHubNotification[]> {
+  private async fetchAllNotifications(ifModifiedSince?: string): Promise<NotificationPoll> {
     const allNotifications: GitHubNotification[] = [];
     let page = 1;
     const perPage = 100; // Maximum per page
+    let lastModified: string | null = null;
+    let pollInterval = DEFAULT_POLL_INTERVAL_SECONDS;
     
     while (true) {
       try {
@@ -304,8 +908,15 @@ export class GitHubClient {
           all: false, // Only unread threads
           per_page: perPage,
           page: page,
+          // Only the first page is conditional, it tells us if anything changed
+          headers: page === 1 && ifModifiedSince ? { 'if-modified-since': ifModifiedSince } : {},
         });
         
+        if (page === 1) {
+          lastModified = headers['last-modified'] ?? null;
+          pollInterval = this.parsePollInterval(headers['x-poll-interval']);
+        }
+        
         if (notifications.length === 0) {
           // No more notifications
           break;
@@ -323,21 +934,35 @@ export class GitHubClient {
         
         page++;
         
-        // Add a small delay to avoid rate limiting
-        await this.delay(100);
-        
       } catch (error) {
+        // 304 Not Modified: nothing changed since the last poll
+        if (page === 1 && ifModifiedSince && (error as OctokitError).status === 304) {
+          const headers = (error as OctokitError).response?.headers ?? {};
+          this.logger.debug(`Notifications not modified since ${ifModifiedSince}`);
+          return {
+            notModified: true,
+            notifications: [],
+            lastModified: ifModifiedSince,
+            pollInterval: this.parsePollInterval(headers['x-poll-interval']),
+          };
+        }
         this.logger.error(`Failed to fetch notifications on page ${page}:`, error);
         throw error;
       }
     }
     
     this.logger.debug(`Fetched all ${allNotifications.length} notifications`);
-    return allNotifications as GitHubNotification[];
+    return {
+      notModified: false,
+      notifications: allNotifications,
+      lastModified,
+      pollInterval,
+    };
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private parsePollInterval(header: string | number | undefined): number {
+    const seconds = Number(header);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_POLL_INTERVAL_SECONDS;
   }
 
   extractPullRequestInfo(url: string): { owner: string; repo: string; pullNumber: number } | null {
@@ -353,4 +978,64 @@ export class GitHubClient {
     }
     return null;
   }
+
+  extractIssueInfo(url: string): { owner: string; repo: string; issueNumber: number } | null {
+    // Extract issue info from GitHub URL
+    // Format: https://api.github.com/repos/owner/repo/issues/123
+    const match = url.match(/\/repos\/([^\/]+)\/([^\/]+)\/issues\/(\d+)/);
+    if (match) {
+      return {
+        owner: match[1],
+        repo: match[2],
+        issueNumber: parseInt(match[3]),
+      };
+    }
+    return null;
+  }
+
+  extractReleaseInfo(url: string): { owner: string; repo: string; releaseId: number } | null {
+    // Extract release info from GitHub URL
+    // Format: https://api.github.com/repos/owner/repo/releases/123
+    const match = url.match(/\/repos\/([^\/]+)\/([^\/]+)\/releases\/(\d+)/);
+    if (match) {
+      return {
+        owner: match[1],
+        repo: match[2],
+        releaseId: parseInt(match[3]),
+      };
+    }
+    return null;
+  }
+
+  extractDiscussionInfo(url: string): { owner: string; repo: string; discussionNumber: number } | null {
+    // Extract discussion info from GitHub URL
+    // Format: https://api.github.com/repos/owner/repo/discussions/123
+    const match = url.match(/\/repos\/([^\/]+)\/([^\/]+)\/discussions\/(\d+)/);
+    if (match) {
+      return {
+        owner: match[1],
+        repo: match[2],
+        discussionNumber: parseInt(match[3]),
+      };
+    }
+    return null;
+  }
+
+  getHtmlUrl(notification: GitHubNotification): string {
+    // Turn the API URL of the subject into the page a person would open
+    // Format: https://api.github.com/repos/owner/repo/pulls/123
+    const repoUrl = `https://github.com/${notification.repository.full_name}`;
+    const match = notification.subject.url?.match(/\/repos\/[^\/]+\/[^\/]+\/(pulls|issues|discussions|commits)\/(\w+)/);
+    if (match) {
+      const kind = match[1] === 'pulls' ? 'pull' : match[1] === 'commits' ? 'commit' : match[1];
+      return `${repoUrl}/${kind}/${match[2]}`;
+    }
+    if (notification.subject.type === 'Release') {
+      return `${repoUrl}/releases`;
+    }
+    if (notification.subject.type === 'CheckSuite') {
+      return `${repoUrl}/actions`;
+    }
+    return repoUrl;
+  }
 }
\ No newline at end of file
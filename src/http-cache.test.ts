@@ -0,0 +1,103 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { DEFAULT_HTTP_CACHE_OPTIONS, HttpCache } from "./http-cache";
+import { Logger } from "./types";
+
+const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
+
+const notModified = Object.assign(new Error("Not Modified"), { status: 304 });
+
+describe("HttpCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "http-cache-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("revalidates cached entries with their ETag", async () => {
+    const cache = new HttpCache(logger, dir);
+    const sentHeaders: Array<Record<string, string>> = [];
+
+    await cache.fetch("GET /pulls/1", async (headers) => {
+      sentHeaders.push(headers);
+      return { data: { state: "open" }, headers: { etag: '"v1"' } };
+    });
+    const data = await cache.fetch("GET /pulls/1", async (headers) => {
+      sentHeaders.push(headers);
+      throw notModified;
+    });
+
+    expect(data).toEqual({ state: "open" });
+    expect(sentHeaders).toEqual([{}, { "if-none-match": '"v1"' }]);
+    expect(cache.getCounters()).toEqual({ revalidated: 1, fetched: 1 });
+  });
+
+  it("replaces entries that changed", async () => {
+    const cache = new HttpCache(logger, dir);
+
+    await cache.fetch("GET /pulls/1", async () => ({
+      data: { requested_teams: ["core"] },
+      headers: { etag: '"v1"' },
+    }));
+    const data = await cache.fetch("GET /pulls/1", async () => ({
+      data: { requested_teams: [] },
+      headers: { etag: '"v2"' },
+    }));
+
+    expect(data).toEqual({ requested_teams: [] });
+  });
+
+  it("passes on errors other than 304", async () => {
+    const cache = new HttpCache(logger, dir);
+    const notFound = Object.assign(new Error("Not Found"), { status: 404 });
+
+    await expect(
+      cache.fetch("GET /pulls/1", async () => {
+        throw notFound;
+      })
+    ).rejects.toBe(notFound);
+  });
+
+  it("evicts expired entries, then the oldest ones above the size limit", async () => {
+    const cache = new HttpCache(logger, dir, {
+      ...DEFAULT_HTTP_CACHE_OPTIONS,
+      maxAgeDays: 1,
+      maxSizeMB: 1,
+    });
+    const store = async (key: string, size: number, daysAgo: number) => {
+      await cache.fetch(key, async () => ({
+        data: "x".repeat(size),
+        headers: { etag: `"${key}"` },
+      }));
+      // Entry files are named by the key's hash, their mtime is validatedAt
+      const hash = crypto.createHash("sha1").update(key).digest("hex");
+      const time = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+      await fs.utimes(path.join(dir, `${hash}.json`), time, time);
+    };
+
+    await store("expired", 10, 2);
+    await store("oldest", 600 * 1024, 0.5);
+    await store("newest", 600 * 1024, 0.1);
+
+    expect(await cache.prune()).toBe(2);
+    const sentHeaders: Array<Record<string, string>> = [];
+    for (const key of ["expired", "oldest", "newest"]) {
+      await cache.fetch(key, async (headers) => {
+        sentHeaders.push(headers);
+        return { data: "", headers: {} };
+      });
+    }
+    expect(sentHeaders).toEqual([{}, {}, { "if-none-match": '"newest"' }]);
+  });
+});
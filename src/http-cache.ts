@@ -0,0 +1,226 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as path from "path";
+import { DEFAULT_CACHE_DIR } from "./cache";
+import { OctokitError } from "./rate-limiter";
+import { Logger } from "./types";
+
+type Headers = Record<string, string | number | undefined>;
+
+// The HTTP cache lives next to the team caches
+export function getHttpCacheDir(cacheDir: string = DEFAULT_CACHE_DIR): string {
+  return path.join(cacheDir, "http");
+}
+
+export interface HttpCacheOptions {
+  maxAgeDays: number; // Entries not revalidated for this long are evicted
+  maxSizeMB: number; // Least recently validated entries go first above this
+}
+
+export const DEFAULT_HTTP_CACHE_OPTIONS: HttpCacheOptions = {
+  maxAgeDays: 14,
+  maxSizeMB: 100,
+};
+
+// A cached response body with what's needed to revalidate it
+interface HttpCacheEntry<T> {
+  key: string;
+  etag: string | null;
+  lastModified: string | null;
+  validatedAt: number;
+  data: T;
+}
+
+export interface HttpCacheStats {
+  entries: number;
+  sizeBytes: number;
+  oldest: Date | null;
+  newest: Date | null;
+}
+
+// Counts for the current process, logged at the end of a run
+export interface HttpCacheCounters {
+  revalidated: number; // 304 Not Modified, free in terms of rate limit
+  fetched: number;
+}
+
+// On-disk cache for GET requests of subject details. Every entry is
+// revalidated with If-None-Match / If-Modified-Since: a thread's updated_at
+// misses some changes, such as reviewers being removed from a PR.
+export class HttpCache {
+  private cacheDir: string;
+  private logger: Logger;
+  private options: HttpCacheOptions;
+  private counters: HttpCacheCounters = { revalidated: 0, fetched: 0 };
+
+  constructor(
+    logger: Logger,
+    cacheDir: string = getHttpCacheDir(),
+    options: HttpCacheOptions = DEFAULT_HTTP_CACHE_OPTIONS
+  ) {
+    this.cacheDir = cacheDir;
+    this.logger = logger;
+    this.options = options;
+  }
+
+  private getEntryPath(key: string): string {
+    const hash = crypto.createHash("sha1").update(key).digest("hex");
+    return path.join(this.cacheDir, `${hash}.json`);
+  }
+
+  private get maxAgeMs(): number {
+    return this.options.maxAgeDays * 24 * 60 * 60 * 1000;
+  }
+
+  async fetch<T>(
+    key: string,
+    request: (headers: Record<string, string>) => Promise<{
+      data: T;
+      headers: Headers;
+    }>
+  ): Promise<T> {
+    const entry = await this.read<T>(key);
+
+    const conditionalHeaders: Record<string, string> = {};
+    if (entry?.etag) {
+      conditionalHeaders["if-none-match"] = entry.etag;
+    } else if (entry?.lastModified) {
+      conditionalHeaders["if-modified-since"] = entry.lastModified;
+    }
+
+    try {
+      const { data, headers } = await request(conditionalHeaders);
+      this.counters.fetched++;
+      await this.write<T>({
+        key,
+        etag: headers.etag ? String(headers.etag) : null,
+        lastModified: headers["last-modified"]
+          ? String(headers["last-modified"])
+          : null,
+        validatedAt: Date.now(),
+        data,
+      });
+      return data;
+    } catch (error) {
+      if (entry && (error as OctokitError).status === 304) {
+        this.logger.debug(`HTTP cache revalidated ${key}`);
+        this.counters.revalidated++;
+        await this.write<T>({ ...entry, validatedAt: Date.now() });
+        return entry.data;
+      }
+      throw error;
+    }
+  }
+
+  getCounters(): HttpCacheCounters {
+    return { ...this.counters };
+  }
+
+  private async read<T>(key: string): Promise<HttpCacheEntry<T> | null> {
+    try {
+      const entryPath = this.getEntryPath(key);
+      if (!(await fs.pathExists(entryPath))) {
+        return null;
+      }
+      const entry = (await fs.readJson(entryPath)) as HttpCacheEntry<T>;
+      // Guard against hash collisions
+      return entry.key === key ? entry : null;
+    } catch (error) {
+      this.logger.debug(`Ignoring unreadable HTTP cache entry for ${key}`);
+      return null;
+    }
+  }
+
+  private async write<T>(entry: HttpCacheEntry<T>): Promise<void> {
+    try {
+      await fs.ensureDir(this.cacheDir);
+      await fs.writeJson(this.getEntryPath(entry.key), entry);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to write HTTP cache entry for ${entry.key}:`,
+        error
+      );
+      // Don't throw - caching is not critical
+    }
+  }
+
+  // File modification times track when each entry was last validated
+  private async listEntryFiles(): Promise<
+    Array<{ filePath: string; size: number; validatedAt: number }>
+  > {
+    if (!(await fs.pathExists(this.cacheDir))) {
+      return [];
+    }
+
+    const files = await fs.readdir(this.cacheDir);
+    const entries = [];
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      const filePath = path.join(this.cacheDir, file);
+      const stat = await fs.stat(filePath);
+      entries.push({ filePath, size: stat.size, validatedAt: stat.mtimeMs });
+    }
+    return entries;
+  }
+
+  // Evicts expired entries, then the least recently validated ones until
+  // the cache fits its size limit. Returns how many entries were removed.
+  async prune(): Promise<number> {
+    try {
+      const now = Date.now();
+      const files = (await this.listEntryFiles()).sort(
+        (a, b) => b.validatedAt - a.validatedAt
+      );
+
+      const maxBytes = this.options.maxSizeMB * 1024 * 1024;
+      let keptBytes = 0;
+      let removed = 0;
+      for (const file of files) {
+        keptBytes += file.size;
+        if (now - file.validatedAt > this.maxAgeMs || keptBytes > maxBytes) {
+          await fs.remove(file.filePath);
+          removed++;
+        }
+      }
+
+      if (removed > 0) {
+        this.logger.debug(`Evicted ${removed} HTTP cache entries`);
+      }
+      return removed;
+    } catch (error) {
+      this.logger.warn("Failed to prune HTTP cache:", error);
+      return 0;
+    }
+  }
+
+  async getStats(): Promise<HttpCacheStats> {
+    const files = await this.listEntryFiles();
+    const times = files.map((file) => file.validatedAt);
+    return {
+      entries: files.length,
+      sizeBytes: files.reduce((total, file) => total + file.size, 0),
+      oldest: times.length > 0 ? new Date(Math.min(...times)) : null,
+      newest: times.length > 0 ? new Date(Math.max(...times)) : null,
+    };
+  }
+
+  // Removes the entry files, and the directory once nothing else is left in it
+  async clear(): Promise<void> {
+    try {
+      const files = await this.listEntryFiles();
+      if (files.length === 0) {
+        this.logger.debug("No HTTP cache entries found to clear");
+        return;
+      }
+
+      for (const file of files) {
+        await fs.remove(file.filePath);
+      }
+      if ((await fs.readdir(this.cacheDir)).length === 0) {
+        await fs.rmdir(this.cacheDir);
+      }
+      this.logger.info(`Cleared ${files.length} HTTP cache entries`);
+    } catch (error) {
+      this.logger.warn("Failed to clear HTTP cache:", error);
+    }
+  }
+}
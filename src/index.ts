@@ -1,6 +1,8 @@
 import dotenv from 'dotenv';
 import { ConsoleLogger } from './logger';
+import { loadConfig } from './config';
 import { NotificationProcessor } from './notification-processor';
+import { appendStepSummary } from './report';
 import { Logger } from './types';
 
 // Load environment variables
@@ -27,9 +29,30 @@ async function main() {
     logger.info('Starting GitHub Threads Processor');
     logger.info(`Processing threads for user: ${currentUser}`);
 
+    const { config: loaded } = await loadConfig(logger, process.env.GH_NOTIFICATIONS_CONFIG);
+    
+    // Let CI runners keep the caches somewhere they can be restored from
+    const config = { ...loaded };
+    if (process.env.GH_NOTIFICATIONS_CACHE_DIR) {
+      config.cacheDir = process.env.GH_NOTIFICATIONS_CACHE_DIR;
+    }
+    if (process.env.GH_NOTIFICATIONS_CACHE_TTL) {
+      const cacheTTLHours = Number(process.env.GH_NOTIFICATIONS_CACHE_TTL);
+      if (!Number.isFinite(cacheTTLHours) || cacheTTLHours <= 0) {
+        logger.error(`Invalid GH_NOTIFICATIONS_CACHE_TTL: ${process.env.GH_NOTIFICATIONS_CACHE_TTL}`);
+        process.exit(1);
+      }
+      config.cacheTTLHours = cacheTTLHours;
+    }
+
     // Create and run the thread processor
-    const processor = new NotificationProcessor(githubToken, currentUser, logger);
-    await processor.processNotifications();
+    const processor = new NotificationProcessor(githubToken, currentUser, logger, false, false, config);
+    const report = await processor.processNotifications();
+
+    // Show what happened on the run's page when running in GitHub Actions
+    if (await appendStepSummary(report)) {
+      logger.info('Wrote report to the GitHub Actions job summary');
+    }
 
     logger.info('GitHub Threads Processor completed successfully');
     
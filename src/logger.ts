@@ -2,9 +2,12 @@ import { Logger } from './types';
 
 export class ConsoleLogger implements Logger {
   private logLevel: string;
+  private toStderr: boolean;
 
-  constructor(logLevel: string = 'info') {
+  // toStderr keeps info and debug lines off stdout, e.g. when a report is printed there
+  constructor(logLevel: string = 'info', toStderr: boolean = false) {
     this.logLevel = logLevel;
+    this.toStderr = toStderr;
   }
 
   private shouldLog(level: string): boolean {
@@ -16,7 +19,7 @@ export class ConsoleLogger implements Logger {
 
   info(message: string, ...args: any[]): void {
     if (this.shouldLog('info')) {
-      console.log(`[INFO] ${message}`, ...args);
+      (this.toStderr ? console.error : console.log)(`[INFO] ${message}`, ...args);
     }
   }
 
@@ -34,7 +37,7 @@ export class ConsoleLogger implements Logger {
 
   debug(message: string, ...args: any[]): void {
     if (this.shouldLog('debug')) {
-      console.debug(`[DEBUG] ${message}`, ...args);
+      (this.toStderr ? console.error : console.debug)(`[DEBUG] ${message}`, ...args);
     }
   }
 }
\ No newline at end of file
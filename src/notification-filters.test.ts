@@ -0,0 +1,746 @@
+import {
+  BotAuthorPRFilter,
+  ClosedDiscussionFilter,
+  ClosedIssueFilter,
+  CompositeFilter,
+  DEFAULT_TEAM_MATCH_OPTIONS,
+  getTeamPolicy,
+  isTeamReviewer,
+  MergedClosedPRFilter,
+  ReasonFilter,
+  ReleaseFilter,
+  StaleOpenPRFilter,
+  SupersededCheckSuiteFilter,
+  TeamMatchOptions,
+} from "./notification-filters";
+import {
+  GitHubNotification,
+  GitHubTeam,
+  GitHubTeamParent,
+  DiscussionDetails,
+  IssueDetails,
+  Logger,
+  PullRequestDetails,
+  PullRequestReview,
+  WorkflowRunSummary,
+} from "./types";
+
+function team(
+  org: string,
+  slug: string,
+  name: string = slug,
+  parent: GitHubTeamParent | null = null
+): GitHubTeam {
+  return { id: 1, name, slug, organization: { login: org, id: 1 }, parent };
+}
+
+function parentTeam(
+  slug: string,
+  parent: GitHubTeamParent | null = null
+): GitHubTeamParent {
+  return { id: 2, name: slug, slug, parent };
+}
+
+function pullRequest(
+  repoOwner: string,
+  requestedTeams: Array<{ name: string; slug: string }>,
+  overrides: Partial<PullRequestDetails> = {}
+): PullRequestDetails {
+  return {
+    id: 1,
+    number: 42,
+    state: "open",
+    merged: false,
+    merged_at: null,
+    closed_at: null,
+    updated_at: new Date().toISOString(),
+    head: { sha: "head-sha" },
+    user: { type: "User", login: "someone-else", id: 2 },
+    requested_reviewers: [],
+    requested_teams: requestedTeams.map((requested, index) => ({
+      ...requested,
+      id: index + 100,
+    })),
+    assignees: [],
+    base: { repo: { owner: { login: repoOwner } } },
+    ...overrides,
+  };
+}
+
+function notification(
+  repoOwner: string,
+  reason = "review_requested",
+  updatedAt = "2024-01-01T00:00:00Z"
+): GitHubNotification {
+  return {
+    id: "1",
+    unread: true,
+    reason,
+    updated_at: updatedAt,
+    last_read_at: null,
+    subject: {
+      title: "Update dependency",
+      url: `https://api.github.com/repos/${repoOwner}/app/pulls/42`,
+      latest_comment_url: null,
+      type: "PullRequest",
+    },
+    repository: {
+      id: 1,
+      name: "app",
+      full_name: `${repoOwner}/app`,
+      owner: { login: repoOwner, id: 1 },
+    },
+    url: "https://api.github.com/notifications/threads/1",
+    subscription_url:
+      "https://api.github.com/notifications/threads/1/subscription",
+  };
+}
+
+describe("isTeamReviewer", () => {
+  it("matches a requested team in the same org by slug", () => {
+    const pr = pullRequest("org-a", [{ name: "Frontend", slug: "frontend" }]);
+
+    expect(isTeamReviewer(pr, [team("org-a", "frontend", "Frontend")])).toBe(
+      true
+    );
+  });
+
+  it("does not match a team with the same name and slug in another org", () => {
+    const pr = pullRequest("org-b", [{ name: "Frontend", slug: "frontend" }]);
+
+    expect(isTeamReviewer(pr, [team("org-a", "frontend", "Frontend")])).toBe(
+      false
+    );
+  });
+
+  it("does not match on the team name alone", () => {
+    const pr = pullRequest("org-a", [
+      { name: "Frontend", slug: "frontend-guild" },
+    ]);
+
+    expect(isTeamReviewer(pr, [team("org-a", "frontend", "Frontend")])).toBe(
+      false
+    );
+  });
+
+  it("compares orgs and slugs case-insensitively", () => {
+    const pr = pullRequest("Org-A", [{ name: "Frontend", slug: "frontend" }]);
+
+    expect(isTeamReviewer(pr, [team("org-a", "Frontend")])).toBe(true);
+  });
+
+  it("is false before the user's teams are loaded", () => {
+    const pr = pullRequest("org-a", [{ name: "Frontend", slug: "frontend" }]);
+
+    expect(isTeamReviewer(pr, null)).toBe(false);
+  });
+});
+
+describe("isTeamReviewer with nested teams", () => {
+  const userTeams = [
+    team("org-a", "web", "Web", parentTeam("frontend", parentTeam("eng"))),
+  ];
+
+  it("matches a request to the parent team", () => {
+    const pr = pullRequest("org-a", [{ name: "Frontend", slug: "frontend" }]);
+
+    expect(isTeamReviewer(pr, userTeams)).toBe(true);
+  });
+
+  it("matches a request to a further ancestor", () => {
+    const pr = pullRequest("org-a", [{ name: "Engineering", slug: "eng" }]);
+
+    expect(isTeamReviewer(pr, userTeams)).toBe(true);
+  });
+
+  it("does not match a parent team slug in another org", () => {
+    const pr = pullRequest("org-b", [{ name: "Frontend", slug: "frontend" }]);
+
+    expect(isTeamReviewer(pr, userTeams)).toBe(false);
+  });
+
+  it("ignores parent team requests when configured to", () => {
+    const options = {
+      ...DEFAULT_TEAM_MATCH_OPTIONS,
+      parentTeamRequestsCountAsInvolvement: false,
+    };
+
+    expect(
+      isTeamReviewer(
+        pullRequest("org-a", [{ name: "Frontend", slug: "frontend" }]),
+        userTeams,
+        options
+      )
+    ).toBe(false);
+    expect(
+      isTeamReviewer(
+        pullRequest("org-a", [{ name: "Web", slug: "web" }]),
+        userTeams,
+        options
+      )
+    ).toBe(true);
+  });
+});
+
+describe("team policies", () => {
+  const options: TeamMatchOptions = {
+    ...DEFAULT_TEAM_MATCH_OPTIONS,
+    policies: {
+      "org-a/eng": "ignore",
+      "org-a/design-*": "interested",
+      "org-a/*": "owner",
+    },
+    defaultPolicy: "interested",
+  };
+
+  it("uses the first matching policy and falls back to the default", () => {
+    expect(getTeamPolicy("org-a", "eng", options)).toBe("ignore");
+    expect(getTeamPolicy("org-a", "design-system", options)).toBe("interested");
+    expect(getTeamPolicy("org-a", "frontend", options)).toBe("owner");
+    expect(getTeamPolicy("org-b", "frontend", options)).toBe("interested");
+  });
+
+  it("counts only owner teams unless asked for other policies", () => {
+    const userTeams = [team("org-a", "design-system")];
+    const pr = pullRequest("org-a", [
+      { name: "Design System", slug: "design-system" },
+    ]);
+
+    expect(isTeamReviewer(pr, userTeams, options)).toBe(false);
+    expect(
+      isTeamReviewer(pr, userTeams, options, ["owner", "interested"])
+    ).toBe(true);
+  });
+
+  it("applies the policy of the requested ancestor team", () => {
+    const userTeams = [team("org-a", "web", "Web", parentTeam("eng"))];
+    const pr = pullRequest("org-a", [{ name: "Engineering", slug: "eng" }]);
+
+    expect(
+      isTeamReviewer(pr, userTeams, options, ["owner", "interested"])
+    ).toBe(false);
+  });
+
+  it("only keeps open PRs for requests to owner teams", () => {
+    const userTeams = [team("org-a", "frontend"), team("org-a", "eng")];
+    const filter = new MergedClosedPRFilter("me", () => userTeams, options);
+
+    expect(
+      filter.evaluate(notification("org-a"), {
+        pullRequest: pullRequest("org-a", [
+          { name: "Frontend", slug: "frontend" },
+        ]),
+      }).action
+    ).toBe("none");
+    expect(
+      filter.evaluate(notification("org-a"), {
+        pullRequest: pullRequest("org-a", [
+          { name: "Engineering", slug: "eng" },
+        ]),
+      }).action
+    ).toBe("done");
+  });
+});
+
+describe("MergedClosedPRFilter", () => {
+  const userTeams = [team("org-a", "frontend", "Frontend")];
+  const filter = new MergedClosedPRFilter("me", () => userTeams);
+
+  it("keeps a PR requesting review from the user's team", () => {
+    const verdict = filter.evaluate(notification("org-a"), {
+      pullRequest: pullRequest("org-a", [
+        { name: "Frontend", slug: "frontend" },
+      ]),
+    });
+
+    expect(verdict.action).toBe("none");
+  });
+
+  it("marks a PR done when only a same-named team in another org is requested", () => {
+    const verdict = filter.evaluate(notification("org-b"), {
+      pullRequest: pullRequest("org-b", [
+        { name: "Frontend", slug: "frontend" },
+      ]),
+    });
+
+    expect(verdict.action).toBe("done");
+  });
+});
+
+describe("BotAuthorPRFilter", () => {
+  const userTeams = [team("org-a", "frontend", "Frontend")];
+  const filter = new BotAuthorPRFilter("me", () => userTeams, {
+    logins: ["renovate[bot]"],
+    teamReviewRequestsCountAsInvolvement: true,
+  });
+  const bot = { type: "Bot" as const, login: "renovate[bot]", id: 3 };
+
+  it("keeps a bot PR requesting review from the user's team", () => {
+    const verdict = filter.evaluate(notification("org-a"), {
+      pullRequest: pullRequest(
+        "org-a",
+        [{ name: "Frontend", slug: "frontend" }],
+        { user: bot }
+      ),
+    });
+
+    expect(verdict.action).toBe("none");
+  });
+
+  it("marks a bot PR done when the requested team is from another org", () => {
+    const verdict = filter.evaluate(notification("org-b"), {
+      pullRequest: pullRequest(
+        "org-b",
+        [{ name: "Frontend", slug: "frontend" }],
+        { user: bot }
+      ),
+    });
+
+    expect(verdict.action).toBe("done");
+  });
+});
+
+describe("StaleOpenPRFilter", () => {
+  const userTeams = [team("org-a", "frontend")];
+  const filter = new StaleOpenPRFilter("me", () => userTeams, {
+    doneWhenApproved: true,
+    staleAfterDays: 14,
+  });
+  const daysAgo = (days: number) =>
+    new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  function review(
+    state: PullRequestReview["state"],
+    commitId: string,
+    login = "me"
+  ): PullRequestReview {
+    return { id: 1, user: { login }, state, commit_id: commitId };
+  }
+
+  it("marks a PR done when the user approved the head commit", () => {
+    const verdict = filter.evaluate(notification("org-a"), {
+      pullRequest: pullRequest("org-a", []),
+      pullRequestReviews: [
+        review("APPROVED", "head-sha"),
+        review("COMMENTED", "head-sha"),
+      ],
+    });
+
+    expect(verdict.action).toBe("done");
+  });
+
+  it("keeps a PR with commits after the user's approval", () => {
+    const verdict = filter.evaluate(notification("org-a"), {
+      pullRequest: pullRequest("org-a", []),
+      pullRequestReviews: [review("APPROVED", "old-sha")],
+    });
+
+    expect(verdict.action).toBe("none");
+  });
+
+  it("keeps a PR when the user's latest review requests changes", () => {
+    const verdict = filter.evaluate(notification("org-a"), {
+      pullRequest: pullRequest("org-a", []),
+      pullRequestReviews: [
+        review("APPROVED", "head-sha"),
+        review("CHANGES_REQUESTED", "head-sha"),
+        review("APPROVED", "head-sha", "someone-else"),
+      ],
+    });
+
+    expect(verdict.action).toBe("none");
+  });
+
+  it("keeps a PR when the user's review is requested again", () => {
+    const verdict = filter.evaluate(notification("org-a"), {
+      pullRequest: pullRequest("org-a", [], {
+        requested_reviewers: [{ login: "me", id: 1 }],
+      }),
+      pullRequestReviews: [review("APPROVED", "head-sha")],
+    });
+
+    expect(verdict.action).toBe("none");
+  });
+
+  it("marks a quiet PR done when the user is only requested through a team", () => {
+    const verdict = filter.evaluate(notification("org-a"), {
+      pullRequest: pullRequest(
+        "org-a",
+        [{ name: "Frontend", slug: "frontend" }],
+        { updated_at: daysAgo(20) }
+      ),
+      pullRequestReviews: [],
+    });
+
+    expect(verdict.action).toBe("done");
+  });
+
+  it("keeps a team-requested PR with recent activity", () => {
+    const verdict = filter.evaluate(notification("org-a"), {
+      pullRequest: pullRequest(
+        "org-a",
+        [{ name: "Frontend", slug: "frontend" }],
+        { updated_at: daysAgo(3) }
+      ),
+      pullRequestReviews: [],
+    });
+
+    expect(verdict.action).toBe("none");
+  });
+
+  it("leaves closed PRs to the merged-closed-pr rule", () => {
+    const verdict = filter.evaluate(notification("org-a"), {
+      pullRequest: pullRequest("org-a", [], { state: "closed" }),
+      pullRequestReviews: [review("APPROVED", "head-sha")],
+    });
+
+    expect(verdict.action).toBe("none");
+  });
+});
+
+describe("ClosedIssueFilter", () => {
+  const filter = new ClosedIssueFilter("me");
+
+  function issueThread(reason = "subscribed"): GitHubNotification {
+    const thread = notification("org-a", reason);
+    return { ...thread, subject: { ...thread.subject, type: "Issue" } };
+  }
+
+  function issue(overrides: Partial<IssueDetails> = {}): IssueDetails {
+    return {
+      id: 1,
+      number: 7,
+      state: "closed",
+      state_reason: "completed",
+      closed_at: "2024-01-01T00:00:00Z",
+      body: "Steps to reproduce",
+      user: { type: "User", login: "someone-else", id: 2 },
+      assignees: [],
+      ...overrides,
+    };
+  }
+
+  it("only looks at issue threads", () => {
+    const verdict = filter.evaluate(notification("org-a"), { issue: issue() });
+
+    expect(verdict).toEqual({
+      rule: "closed-issue",
+      action: "none",
+      reasons: ["Not an issue thread"],
+    });
+  });
+
+  it("leaves open issues alone", () => {
+    const verdict = filter.evaluate(issueThread(), {
+      issue: issue({ state: "open", state_reason: null, closed_at: null }),
+    });
+
+    expect(verdict.action).toBe("none");
+  });
+
+  it("marks a closed issue done when the user isn't involved", () => {
+    const verdict = filter.evaluate(issueThread(), { issue: issue() });
+
+    expect(verdict.action).toBe("done");
+    expect(verdict.reasons).toEqual([
+      "Issue 7 is closed and user is not directly involved",
+    ]);
+  });
+
+  it("says when an issue was closed as not planned", () => {
+    const verdict = filter.evaluate(issueThread(), {
+      issue: issue({ state_reason: "not_planned" }),
+    });
+
+    expect(verdict.reasons).toEqual([
+      "Issue 7 is not planned and user is not directly involved",
+    ]);
+  });
+
+  it("leaves issues the user opened or is assigned to", () => {
+    const authored = filter.evaluate(issueThread(), {
+      issue: issue({ user: { type: "User", login: "me", id: 3 } }),
+    });
+    const assigned = filter.evaluate(issueThread(), {
+      issue: issue({ assignees: [{ login: "me", id: 3 }] }),
+    });
+
+    expect(authored.action).toBe("none");
+    expect(assigned.action).toBe("none");
+  });
+
+  it("leaves issues the user is mentioned in", () => {
+    const byReason = filter.evaluate(issueThread("mention"), {
+      issue: issue(),
+    });
+    const inBody = filter.evaluate(issueThread(), {
+      issue: issue({ body: "cc @Me, can you take a look?" }),
+    });
+
+    expect(byReason.action).toBe("none");
+    expect(inBody.action).toBe("none");
+  });
+
+  it("doesn't take a longer login for a mention", () => {
+    const verdict = filter.evaluate(issueThread(), {
+      issue: issue({ body: "cc @me-too and me@example.com" }),
+    });
+
+    expect(verdict.action).toBe("done");
+  });
+});
+
+describe("ClosedDiscussionFilter", () => {
+  const filter = new ClosedDiscussionFilter("me");
+
+  function discussionThread(reason = "subscribed"): GitHubNotification {
+    const thread = notification("org-a", reason);
+    return { ...thread, subject: { ...thread.subject, type: "Discussion" } };
+  }
+
+  function discussion(
+    overrides: Partial<DiscussionDetails> = {}
+  ): DiscussionDetails {
+    return {
+      number: 9,
+      title: "How do I configure this?",
+      closed: false,
+      locked: false,
+      isAnswered: true,
+      author: { login: "someone-else" },
+      ...overrides,
+    };
+  }
+
+  it("leaves open, unanswered discussions alone", () => {
+    const verdict = filter.evaluate(discussionThread(), {
+      discussion: discussion({ isAnswered: false }),
+    });
+
+    expect(verdict.action).toBe("none");
+  });
+
+  it("marks answered and closed discussions done", () => {
+    const answered = filter.evaluate(discussionThread(), {
+      discussion: discussion(),
+    });
+    const closed = filter.evaluate(discussionThread(), {
+      discussion: discussion({ closed: true, isAnswered: false }),
+    });
+
+    expect(answered.reasons).toEqual([
+      "Discussion 9 is answered and user is not directly involved",
+    ]);
+    expect(closed.reasons).toEqual([
+      "Discussion 9 is closed and user is not directly involved",
+    ]);
+  });
+
+  it("leaves discussions the user started or is mentioned in", () => {
+    const authored = filter.evaluate(discussionThread(), {
+      discussion: discussion({ author: { login: "me" } }),
+    });
+    const mentioned = filter.evaluate(discussionThread("mention"), {
+      discussion: discussion(),
+    });
+
+    expect(authored.action).toBe("none");
+    expect(mentioned.action).toBe("none");
+  });
+
+  it("handles discussions whose author was deleted", () => {
+    const verdict = filter.evaluate(discussionThread(), {
+      discussion: discussion({ author: null }),
+    });
+
+    expect(verdict.action).toBe("done");
+  });
+});
+
+describe("ReleaseFilter", () => {
+  function releaseThread(repoOwner: string): GitHubNotification {
+    const thread = notification(repoOwner, "subscribed");
+    return {
+      ...thread,
+      subject: { ...thread.subject, title: "v1.2.0", type: "Release" },
+    };
+  }
+
+  it("marks releases of listed repositories done", () => {
+    const filter = new ReleaseFilter(["org-a/app"]);
+
+    const verdict = filter.evaluate(releaseThread("org-a"), {});
+
+    expect(verdict.action).toBe("done");
+    expect(verdict.reasons).toEqual([
+      "Release v1.2.0 in org-a/app is on the watch-releases-only list",
+    ]);
+    expect(filter.evaluate(releaseThread("org-b"), {}).action).toBe("none");
+  });
+
+  it("matches repositories against patterns", () => {
+    const filter = new ReleaseFilter(["org-a/*", "/^org-b\\/ap+$/"]);
+
+    expect(filter.evaluate(releaseThread("Org-A"), {}).action).toBe("done");
+    expect(filter.evaluate(releaseThread("org-b"), {}).action).toBe("done");
+    expect(filter.evaluate(releaseThread("org-c"), {}).action).toBe("none");
+  });
+
+  it("only looks at release threads", () => {
+    const filter = new ReleaseFilter(["org-a/app"]);
+
+    expect(filter.evaluate(notification("org-a"), {}).action).toBe("none");
+  });
+});
+
+describe("SupersededCheckSuiteFilter", () => {
+  const filter = new SupersededCheckSuiteFilter();
+  const failedAt = "2024-01-01T00:00:00Z";
+
+  function checkSuiteThread(): GitHubNotification {
+    const thread = notification("org-a", "ci_activity", failedAt);
+    return {
+      ...thread,
+      subject: {
+        ...thread.subject,
+        title: "CI workflow run failed for main branch",
+        url: null,
+        type: "CheckSuite",
+      },
+    };
+  }
+
+  function run(conclusion: string, updatedAt: string): WorkflowRunSummary {
+    return {
+      id: 1,
+      name: "CI",
+      head_branch: "main",
+      status: "completed",
+      conclusion,
+      created_at: updatedAt,
+      updated_at: updatedAt,
+    };
+  }
+
+  function checkSuite(latestRun: WorkflowRunSummary | null) {
+    return {
+      checkSuite: {
+        workflowName: "CI",
+        branch: "main",
+        conclusion: "failed",
+        latestRun,
+      },
+    };
+  }
+
+  it("marks a failed run done once a later run succeeded", () => {
+    const verdict = filter.evaluate(
+      checkSuiteThread(),
+      checkSuite(run("success", "2024-01-02T00:00:00Z"))
+    );
+
+    expect(verdict.action).toBe("done");
+    expect(verdict.reasons).toEqual([
+      "CI run on main was followed by a successful run",
+    ]);
+  });
+
+  it("keeps watching when the latest run failed or is the same run", () => {
+    const failedAgain = filter.evaluate(
+      checkSuiteThread(),
+      checkSuite(run("failure", "2024-01-02T00:00:00Z"))
+    );
+    const sameRun = filter.evaluate(
+      checkSuiteThread(),
+      checkSuite(run("success", failedAt))
+    );
+
+    expect(failedAgain.action).toBe("none");
+    expect(sameRun.action).toBe("none");
+  });
+
+  it("has no verdict without a completed run or check suite details", () => {
+    expect(filter.evaluate(checkSuiteThread(), checkSuite(null)).action).toBe(
+      "none"
+    );
+    expect(filter.evaluate(checkSuiteThread(), {}).action).toBe("none");
+  });
+});
+
+describe("ReasonFilter", () => {
+  const hoursAgo = (hours: number) =>
+    new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+  it("keeps threads with a listed reason", () => {
+    const filter = new ReasonFilter({
+      reasons: ["mention", "assign"],
+      action: "keep",
+      olderThanMs: null,
+    });
+
+    expect(filter.evaluate(notification("org-a", "mention")).action).toBe(
+      "keep"
+    );
+    expect(filter.evaluate(notification("org-a", "subscribed")).action).toBe(
+      "none"
+    );
+  });
+
+  it("only marks threads done once they are older than the limit", () => {
+    const filter = new ReasonFilter({
+      reasons: ["ci_activity"],
+      action: "done",
+      olderThanMs: 24 * 60 * 60 * 1000,
+    });
+
+    expect(
+      filter.evaluate(notification("org-a", "ci_activity", hoursAgo(30))).action
+    ).toBe("done");
+    expect(
+      filter.evaluate(notification("org-a", "ci_activity", hoursAgo(2))).action
+    ).toBe("none");
+  });
+});
+
+describe("CompositeFilter", () => {
+  const logger: Logger = {
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+    debug: () => undefined,
+  };
+  const details = {
+    pullRequest: pullRequest("org-a", [], { state: "closed", merged: true }),
+  };
+
+  it("lets a keep verdict veto done verdicts", () => {
+    const filter = new CompositeFilter(
+      [
+        new MergedClosedPRFilter("me", () => []),
+        new ReasonFilter({
+          reasons: ["mention"],
+          action: "keep",
+          olderThanMs: null,
+        }),
+      ],
+      logger
+    );
+
+    const decision = filter.decide(notification("org-a", "mention"), details);
+
+    expect(decision.action).toBe("keep");
+    expect(decision.rule).toBe("reason");
+  });
+
+  it("marks the thread done when no rule keeps it", () => {
+    const filter = new CompositeFilter(
+      [new MergedClosedPRFilter("me", () => [])],
+      logger
+    );
+
+    const decision = filter.decide(notification("org-a", "mention"), details);
+
+    expect(decision.action).toBe("done");
+    expect(decision.rule).toBe("merged-closed-pr");
+  });
+});
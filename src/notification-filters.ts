@@ -1,69 +1,169 @@
 import {
   GitHubNotification,
   PullRequestDetails,
+  PullRequestReview,
+  IssueDetails,
+  SubjectDetails,
   GitHubTeam,
   NotificationFilter,
+  FilterVerdict,
+  ThreadDecision,
   Logger,
+  TeamPolicy,
+  ThreadAction,
 } from "./types";
+import { matchesAnyPattern, matchesPattern } from "./patterns";
+import { Condition } from "./rule-conditions";
+
+// Teams are identified by org and slug: names and slugs repeat across orgs
+function teamKey(org: string, slug: string): string {
+  return `${org}/${slug}`.toLowerCase();
+}
+
+export interface TeamMatchOptions {
+  // Whether a review request to a parent (or further ancestor) of one of the
+  // user's teams counts, as GitHub notifies child team members too
+  parentTeamRequestsCountAsInvolvement: boolean;
+  // Policy per "org/slug" (globs allowed), the first matching entry wins
+  policies: Record<string, TeamPolicy>;
+  defaultPolicy: TeamPolicy;
+}
+
+export const DEFAULT_TEAM_MATCH_OPTIONS: TeamMatchOptions = {
+  parentTeamRequestsCountAsInvolvement: true,
+  policies: {},
+  defaultPolicy: "owner",
+};
+
+export function getTeamPolicy(
+  org: string,
+  slug: string,
+  options: TeamMatchOptions
+): TeamPolicy {
+  const key = `${org}/${slug}`;
+  const match = Object.entries(options.policies).find(([pattern]) =>
+    matchesPattern(key, pattern)
+  );
+  return match ? match[1] : options.defaultPolicy;
+}
+
+function getReviewerTeamKeys(
+  team: GitHubTeam,
+  options: TeamMatchOptions
+): string[] {
+  const org = team.organization.login;
+  const keys = [teamKey(org, team.slug)];
+
+  if (options.parentTeamRequestsCountAsInvolvement) {
+    for (let parent = team.parent; parent; parent = parent.parent) {
+      keys.push(teamKey(org, parent.slug));
+    }
+  }
+  return keys;
+}
+
+export interface RequestingTeam {
+  team: string; // org/slug of the requested team
+  policy: TeamPolicy;
+}
+
+// The requested teams on a PR that reach the user, directly or through a
+// child team, with their policy
+export function getRequestingTeams(
+  prDetails: PullRequestDetails,
+  userTeams: GitHubTeam[] | null,
+  options: TeamMatchOptions = DEFAULT_TEAM_MATCH_OPTIONS
+): RequestingTeam[] {
+  if (!userTeams) {
+    return [];
+  }
+
+  const userTeamKeys = new Set(
+    userTeams.flatMap((team) => getReviewerTeamKeys(team, options))
+  );
+  const org = prDetails.base.repo.owner.login;
+  return prDetails.requested_teams
+    .filter((requestedTeam) =>
+      userTeamKeys.has(teamKey(org, requestedTeam.slug))
+    )
+    .map((requestedTeam) => ({
+      team: `${org}/${requestedTeam.slug}`,
+      policy: getTeamPolicy(org, requestedTeam.slug, options),
+    }));
+}
+
+// Whether a request to one of the user's teams with one of the given
+// policies is on the PR. Only owner teams count unless told otherwise.
+export function isTeamReviewer(
+  prDetails: PullRequestDetails,
+  userTeams: GitHubTeam[] | null,
+  options: TeamMatchOptions = DEFAULT_TEAM_MATCH_OPTIONS,
+  countedPolicies: TeamPolicy[] = ["owner"]
+): boolean {
+  return getRequestingTeams(prDetails, userTeams, options).some((requesting) =>
+    countedPolicies.includes(requesting.policy)
+  );
+}
 
 export class MergedClosedPRFilter implements NotificationFilter {
-  private logger: Logger;
+  readonly name = "merged-closed-pr";
   private currentUser: string;
   private getUserTeams: () => GitHubTeam[] | null;
+  private teamMatch: TeamMatchOptions;
 
   constructor(
     currentUser: string,
-    logger: Logger,
-    getUserTeams: () => GitHubTeam[] | null
+    getUserTeams: () => GitHubTeam[] | null,
+    teamMatch: TeamMatchOptions = DEFAULT_TEAM_MATCH_OPTIONS
   ) {
     this.currentUser = currentUser;
-    this.logger = logger;
     this.getUserTeams = getUserTeams;
+    this.teamMatch = teamMatch;
   }
 
-  shouldMarkAsDone(
+  evaluate(
     notification: GitHubNotification,
-    prDetails?: PullRequestDetails
-  ): boolean {
+    details: SubjectDetails
+  ): FilterVerdict {
     // Only process PullRequest notifications
     if (notification.subject.type !== "PullRequest") {
-      return false;
+      return noMatch(this.name, "Not a pull request thread");
     }
 
+    const prDetails = details.pullRequest;
+
     // If we don't have PR details, we can't make a decision
     if (!prDetails) {
-      this.logger.debug(
+      return noMatch(
+        this.name,
         `No PR details available for notification ${notification.id}`
       );
-      return false;
     }
 
     if (prDetails.state === "closed") {
-      this.logger.debug(`PR ${prDetails.number} is closed, marking as done`);
-      return true;
+      return markDone(this.name, `PR ${prDetails.number} is closed`);
     }
 
     if (prDetails.merged === true) {
-      this.logger.debug(`PR ${prDetails.number} is merged, marking as done`);
-      return true;
+      return markDone(this.name, `PR ${prDetails.number} is merged`);
     }
 
     // Check if user is a direct reviewer (not just part of a team)
     const isDirectReviewer = this.isDirectReviewer(prDetails);
     if (isDirectReviewer) {
-      this.logger.debug(
-        `User ${this.currentUser} is a direct reviewer for PR ${prDetails.number}, not marking as done`
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is a direct reviewer for PR ${prDetails.number}`
       );
-      return false;
     }
 
     // Check if user is the author of the PR
     const isAuthor = prDetails.user.login === this.currentUser;
     if (isAuthor) {
-      this.logger.debug(
-        `User ${this.currentUser} is the author of PR ${prDetails.number}, not marking as done`
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is the author of PR ${prDetails.number}`
       );
-      return false;
     }
 
     // Check if user is assigned to the PR
@@ -71,16 +171,16 @@ export class MergedClosedPRFilter implements NotificationFilter {
       (assignee) => assignee.login === this.currentUser
     );
     if (isAssigned) {
-      this.logger.debug(
-        `User ${this.currentUser} is assigned to PR ${prDetails.number}, not marking as done`
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is assigned to PR ${prDetails.number}`
       );
-      return false;
     }
 
-    this.logger.info(
-      `PR ${prDetails.number}, user is not directly involved, marking as done`
+    return markDone(
+      this.name,
+      `PR ${prDetails.number}, user is not directly involved`
     );
-    return true;
   }
 
   private isDirectReviewer(prDetails: PullRequestDetails): boolean {
@@ -94,82 +194,98 @@ export class MergedClosedPRFilter implements NotificationFilter {
     }
 
     // Check if any of the user's teams are in the requested teams list
-    const userTeams = this.getUserTeams();
-    if (userTeams) {
-      const isTeamReviewer = prDetails.requested_teams.some((requestedTeam) =>
-        userTeams.some(
-          (userTeam) =>
-            userTeam.name === requestedTeam.name ||
-            userTeam.slug === requestedTeam.name
-        )
-      );
-
-      if (isTeamReviewer) {
-        this.logger.debug(
-          `User ${this.currentUser} is a direct reviewer through team membership`
-        );
-        return true;
-      }
-    }
-
-    return false;
+    return isTeamReviewer(prDetails, this.getUserTeams(), this.teamMatch);
   }
 }
 
-export class RenovatePRFilter implements NotificationFilter {
-  private logger: Logger;
+export interface BotAuthorPRFilterOptions {
+  // Bot logins or glob patterns such as "renovate*[bot]"
+  logins: string[];
+  // Whether a review request to one of the user's teams keeps the thread
+  teamReviewRequestsCountAsInvolvement: boolean;
+}
+
+export class BotAuthorPRFilter implements NotificationFilter {
+  readonly name = "bot-author-pr";
   private currentUser: string;
+  private getUserTeams: () => GitHubTeam[] | null;
+  private options: BotAuthorPRFilterOptions;
+  private teamMatch: TeamMatchOptions;
 
-  constructor(currentUser: string, logger: Logger) {
+  constructor(
+    currentUser: string,
+    getUserTeams: () => GitHubTeam[] | null,
+    options: BotAuthorPRFilterOptions,
+    teamMatch: TeamMatchOptions = DEFAULT_TEAM_MATCH_OPTIONS
+  ) {
     this.currentUser = currentUser;
-    this.logger = logger;
+    this.getUserTeams = getUserTeams;
+    this.options = options;
+    this.teamMatch = teamMatch;
   }
 
-  shouldMarkAsDone(
+  evaluate(
     notification: GitHubNotification,
-    prDetails?: PullRequestDetails
-  ): boolean {
+    details: SubjectDetails
+  ): FilterVerdict {
     // Only process PullRequest notifications
     if (notification.subject.type !== "PullRequest") {
-      return false;
+      return noMatch(this.name, "Not a pull request thread");
     }
 
+    const prDetails = details.pullRequest;
+
     // If we don't have PR details, we can't make a decision
     if (!prDetails) {
-      this.logger.debug(
+      return noMatch(
+        this.name,
         `No PR details available for notification ${notification.id}`
       );
-      return false;
     }
 
-    // Check if PR is opened by Renovate app
-    const isRenovatePR =
-      prDetails.user.login === "renovate-sh-app[bot]" &&
-      prDetails.user.type === "Bot";
+    // Check if PR is opened by one of the configured bots
+    const isBotPR =
+      prDetails.user.type === "Bot" &&
+      matchesAnyPattern(prDetails.user.login, this.options.logins);
 
-    if (!isRenovatePR) {
-      this.logger.debug(
-        `PR ${prDetails.number} is not from Renovate, not marking as done`
+    if (!isBotPR) {
+      return noMatch(
+        this.name,
+        `PR ${prDetails.number} is not from a configured bot`
       );
-      return false;
     }
 
-    // Check if user is a direct reviewer (not just part of a team)
-    const isDirectReviewer = this.isDirectReviewer(prDetails);
-    if (isDirectReviewer) {
-      this.logger.debug(
-        `User ${this.currentUser} is a direct reviewer for Renovate PR ${prDetails.number}, not marking as done`
+    // Check if user is a requested reviewer
+    const isRequestedReviewer = prDetails.requested_reviewers.some(
+      (reviewer) => reviewer.login === this.currentUser
+    );
+    if (isRequestedReviewer) {
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is a direct reviewer for bot PR ${prDetails.number}`
       );
-      return false;
     }
 
-    // Check if user is the author of the PR (shouldn't happen with Renovate, but just in case)
+    if (
+      this.options.teamReviewRequestsCountAsInvolvement &&
+      isTeamReviewer(prDetails, this.getUserTeams(), this.teamMatch, [
+        "owner",
+        "interested",
+      ])
+    ) {
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is a reviewer through team membership for bot PR ${prDetails.number}`
+      );
+    }
+
+    // Check if user is the author of the PR (shouldn't happen with bots, but just in case)
     const isAuthor = prDetails.user.login === this.currentUser;
     if (isAuthor) {
-      this.logger.debug(
-        `User ${this.currentUser} is the author of Renovate PR ${prDetails.number}, not marking as done`
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is the author of bot PR ${prDetails.number}`
       );
-      return false;
     }
 
     // Check if user is assigned to the PR
@@ -177,206 +293,554 @@ export class RenovatePRFilter implements NotificationFilter {
       (assignee) => assignee.login === this.currentUser
     );
     if (isAssigned) {
-      this.logger.debug(
-        `User ${this.currentUser} is assigned to Renovate PR ${prDetails.number}, not marking as done`
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is assigned to bot PR ${prDetails.number}`
       );
-      return false;
     }
 
-    this.logger.info(
-      `Renovate PR ${prDetails.number} opened by ${prDetails.user.login} and user is not directly involved, marking as done`
+    return markDone(
+      this.name,
+      `Bot PR ${prDetails.number} opened by ${prDetails.user.login} and user is not directly involved`
     );
-    return true;
   }
+}
 
-  private isDirectReviewer(prDetails: PullRequestDetails): boolean {
-    // Check if user is in the requested reviewers list
-    const isRequestedReviewer = prDetails.requested_reviewers.some(
-      (reviewer) => reviewer.login === this.currentUser
-    );
-
-    if (isRequestedReviewer) {
-      return true;
-    }
-
-    return false;
-  }
+export interface StaleOpenPRFilterOptions {
+  // Done once the user's latest review approves the current head commit
+  doneWhenApproved: boolean;
+  // Done after this many days without activity when the user is only
+  // requested through a team
+  staleAfterDays: number;
 }
 
-export class DependabotPRFilter implements NotificationFilter {
-  private logger: Logger;
+// Open PRs the user has nothing left to do on: they approved and no commits
+// landed since, or only a team was asked and the PR went quiet
+export class StaleOpenPRFilter implements NotificationFilter {
+  readonly name = "stale-open-pr";
   private currentUser: string;
+  private getUserTeams: () => GitHubTeam[] | null;
+  private options: StaleOpenPRFilterOptions;
+  private teamMatch: TeamMatchOptions;
 
-  constructor(currentUser: string, logger: Logger) {
+  constructor(
+    currentUser: string,
+    getUserTeams: () => GitHubTeam[] | null,
+    options: StaleOpenPRFilterOptions,
+    teamMatch: TeamMatchOptions = DEFAULT_TEAM_MATCH_OPTIONS
+  ) {
     this.currentUser = currentUser;
-    this.logger = logger;
+    this.getUserTeams = getUserTeams;
+    this.options = options;
+    this.teamMatch = teamMatch;
   }
 
-  shouldMarkAsDone(
+  evaluate(
     notification: GitHubNotification,
-    prDetails?: PullRequestDetails
-  ): boolean {
-    // Only process PullRequest notifications
+    details: SubjectDetails
+  ): FilterVerdict {
     if (notification.subject.type !== "PullRequest") {
-      return false;
+      return noMatch(this.name, "Not a pull request thread");
     }
 
-    // If we don't have PR details, we can't make a decision
+    const prDetails = details.pullRequest;
     if (!prDetails) {
-      this.logger.debug(
+      return noMatch(
+        this.name,
         `No PR details available for notification ${notification.id}`
       );
-      return false;
     }
 
-    // Check if PR is opened by Dependabot app
-    const isDependabotPR =
-      prDetails.user.login === "dependabot[bot]" &&
-      prDetails.user.type === "Bot";
+    // Closed and merged PRs are left to the merged-closed-pr rule
+    if (prDetails.state !== "open") {
+      return noMatch(this.name, `PR ${prDetails.number} is not open`);
+    }
 
-    if (!isDependabotPR) {
-      this.logger.debug(
-        `PR ${prDetails.number} is not from Dependabot, not marking as done`
+    if (prDetails.user.login === this.currentUser) {
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is the author of PR ${prDetails.number}`
+      );
+    }
+    if (
+      prDetails.assignees.some(
+        (assignee) => assignee.login === this.currentUser
+      )
+    ) {
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is assigned to PR ${prDetails.number}`
+      );
+    }
+    // Also covers a review that was requested again after approving
+    if (
+      prDetails.requested_reviewers.some(
+        (reviewer) => reviewer.login === this.currentUser
+      )
+    ) {
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is a direct reviewer for PR ${prDetails.number}`
       );
-      return false;
     }
 
-    // Check if user is a direct reviewer (not just part of a team)
-    const isDirectReviewer = this.isDirectReviewer(prDetails);
-    if (isDirectReviewer) {
-      this.logger.debug(
-        `User ${this.currentUser} is a direct reviewer for Dependabot PR ${prDetails.number}, not marking as done`
+    if (
+      this.options.doneWhenApproved &&
+      this.hasApprovedHead(prDetails, details.pullRequestReviews)
+    ) {
+      return markDone(
+        this.name,
+        `User ${this.currentUser} approved PR ${prDetails.number} and no commits landed since`
       );
-      return false;
     }
 
-    // Check if user is the author of the PR (shouldn't happen with Dependabot, but just in case)
-    const isAuthor = prDetails.user.login === this.currentUser;
+    const teams = getRequestingTeams(
+      prDetails,
+      this.getUserTeams(),
+      this.teamMatch
+    );
+    if (teams.length === 0) {
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is not requested through a team on PR ${prDetails.number}`
+      );
+    }
+
+    const idleDays =
+      (Date.now() - new Date(prDetails.updated_at).getTime()) /
+      (24 * 60 * 60 * 1000);
+    if (idleDays < this.options.staleAfterDays) {
+      return noMatch(
+        this.name,
+        `PR ${prDetails.number} had activity in the last ${this.options.staleAfterDays} days`
+      );
+    }
+
+    return markDone(
+      this.name,
+      `PR ${prDetails.number} has had no activity for ${Math.floor(
+        idleDays
+      )} days and user is only requested through ${teams
+        .map((requesting) => requesting.team)
+        .join(", ")}`
+    );
+  }
+
+  // Comments don't change a review state, so the user's latest approval or
+  // change request decides
+  private hasApprovedHead(
+    prDetails: PullRequestDetails,
+    reviews: PullRequestReview[] = []
+  ): boolean {
+    const latest = reviews
+      .filter(
+        (review) =>
+          review.user?.login === this.currentUser &&
+          review.state !== "COMMENTED" &&
+          review.state !== "PENDING"
+      )
+      .pop();
+    return (
+      latest?.state === "APPROVED" && latest.commit_id === prDetails.head.sha
+    );
+  }
+}
+
+export class ClosedIssueFilter implements NotificationFilter {
+  readonly name = "closed-issue";
+  private currentUser: string;
+
+  constructor(currentUser: string) {
+    this.currentUser = currentUser;
+  }
+
+  evaluate(
+    notification: GitHubNotification,
+    details: SubjectDetails
+  ): FilterVerdict {
+    // Only process Issue notifications
+    if (notification.subject.type !== "Issue") {
+      return noMatch(this.name, "Not an issue thread");
+    }
+
+    const issueDetails = details.issue;
+
+    // If we don't have issue details, we can't make a decision
+    if (!issueDetails) {
+      return noMatch(
+        this.name,
+        `No issue details available for notification ${notification.id}`
+      );
+    }
+
+    if (issueDetails.state !== "closed") {
+      return noMatch(this.name, `Issue ${issueDetails.number} is still open`);
+    }
+
+    // Check if user is the author of the issue
+    const isAuthor = issueDetails.user.login === this.currentUser;
     if (isAuthor) {
-      this.logger.debug(
-        `User ${this.currentUser} is the author of Dependabot PR ${prDetails.number}, not marking as done`
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is the author of issue ${issueDetails.number}`
       );
-      return false;
     }
 
-    // Check if user is assigned to the PR
-    const isAssigned = prDetails.assignees.some(
+    // Check if user is assigned to the issue
+    const isAssigned = issueDetails.assignees.some(
       (assignee) => assignee.login === this.currentUser
     );
     if (isAssigned) {
-      this.logger.debug(
-        `User ${this.currentUser} is assigned to Dependabot PR ${prDetails.number}, not marking as done`
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is assigned to issue ${issueDetails.number}`
       );
-      return false;
     }
 
-    this.logger.info(
-      `Dependabot PR ${prDetails.number} opened by ${prDetails.user.login} and user is not directly involved, marking as done`
+    if (this.isMentioned(notification, issueDetails)) {
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is mentioned in issue ${issueDetails.number}`
+      );
+    }
+
+    const closedAs =
+      issueDetails.state_reason === "not_planned" ? "not planned" : "closed";
+    return markDone(
+      this.name,
+      `Issue ${issueDetails.number} is ${closedAs} and user is not directly involved`
     );
-    return true;
   }
 
-  private isDirectReviewer(prDetails: PullRequestDetails): boolean {
-    // Check if user is in the requested reviewers list
-    const isRequestedReviewer = prDetails.requested_reviewers.some(
-      (reviewer) => reviewer.login === this.currentUser
+  private isMentioned(
+    notification: GitHubNotification,
+    issueDetails: IssueDetails
+  ): boolean {
+    if (notification.reason === "mention") {
+      return true;
+    }
+
+    // GitHub logins only contain alphanumerics and hyphens, so a mention
+    // ends at the first character that can't be part of a login
+    const mention = new RegExp(
+      `(^|[^\\w-])@${escapeRegExp(this.currentUser)}(?![\\w-])`,
+      "i"
     );
+    return mention.test(issueDetails.body ?? "");
+  }
+}
 
-    if (isRequestedReviewer) {
-      return true;
+export class ReleaseFilter implements NotificationFilter {
+  readonly name = "release";
+  private watchReleasesOnlyFor: string[];
+
+  constructor(watchReleasesOnlyFor: string[]) {
+    this.watchReleasesOnlyFor = watchReleasesOnlyFor;
+  }
+
+  evaluate(
+    notification: GitHubNotification,
+    details: SubjectDetails
+  ): FilterVerdict {
+    // Only process Release notifications
+    if (notification.subject.type !== "Release") {
+      return noMatch(this.name, "Not a release thread");
     }
 
-    return false;
+    // Releases from these repos are only watched to know they happened
+    const repo = notification.repository.full_name;
+    if (!matchesAnyPattern(repo, this.watchReleasesOnlyFor)) {
+      return noMatch(
+        this.name,
+        `Release in ${repo} is not on the watch-releases-only list`
+      );
+    }
+
+    const tag = details.release?.tag_name ?? notification.subject.title;
+    return markDone(
+      this.name,
+      `Release ${tag} in ${repo} is on the watch-releases-only list`
+    );
   }
 }
 
-export class PluginsPlatformBotPRFilter implements NotificationFilter {
-  private logger: Logger;
+export class ClosedDiscussionFilter implements NotificationFilter {
+  readonly name = "closed-discussion";
   private currentUser: string;
 
-  constructor(currentUser: string, logger: Logger) {
+  constructor(currentUser: string) {
     this.currentUser = currentUser;
-    this.logger = logger;
   }
 
-  shouldMarkAsDone(
+  evaluate(
     notification: GitHubNotification,
-    prDetails?: PullRequestDetails
-  ): boolean {
-    // Only process PullRequest notifications
-    if (notification.subject.type !== "PullRequest") {
-      return false;
+    details: SubjectDetails
+  ): FilterVerdict {
+    // Only process Discussion notifications
+    if (notification.subject.type !== "Discussion") {
+      return noMatch(this.name, "Not a discussion thread");
     }
 
-    // If we don't have PR details, we can't make a decision
-    if (!prDetails) {
-      this.logger.debug(
-        `No PR details available for notification ${notification.id}`
+    const discussion = details.discussion;
+
+    // If we don't have discussion details, we can't make a decision
+    if (!discussion) {
+      return noMatch(
+        this.name,
+        `No discussion details available for notification ${notification.id}`
       );
-      return false;
     }
 
-    // Check if PR is opened by Dependabot app
-    const isDependabotPR =
-      prDetails.user.login === "grafana-plugins-platform-bot[bot]" &&
-      prDetails.user.type === "Bot";
-
-    if (!isDependabotPR) {
-      this.logger.debug(
-        `PR ${prDetails.number} is not from Plugins Platform Bot, not marking as done`
+    if (!discussion.closed && !discussion.isAnswered) {
+      return noMatch(
+        this.name,
+        `Discussion ${discussion.number} is still open and unanswered`
       );
-      return false;
     }
 
-    // Check if user is a direct reviewer (not just part of a team)
-    const isDirectReviewer = this.isDirectReviewer(prDetails);
-    if (isDirectReviewer) {
-      this.logger.debug(
-        `User ${this.currentUser} is a direct reviewer for Plugins Platform Bot PR ${prDetails.number}, not marking as done`
+    // Check if user started the discussion
+    if (discussion.author?.login === this.currentUser) {
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is the author of discussion ${discussion.number}`
       );
-      return false;
     }
 
-    // Check if user is the author of the PR (shouldn't happen with Dependabot, but just in case)
-    const isAuthor = prDetails.user.login === this.currentUser;
-    if (isAuthor) {
-      this.logger.debug(
-        `User ${this.currentUser} is the author of Plugins Platform Bot PR ${prDetails.number}, not marking as done`
+    if (notification.reason === "mention") {
+      return noMatch(
+        this.name,
+        `User ${this.currentUser} is mentioned in discussion ${discussion.number}`
       );
-      return false;
     }
 
-    // Check if user is assigned to the PR
-    const isAssigned = prDetails.assignees.some(
-      (assignee) => assignee.login === this.currentUser
+    const status = discussion.closed ? "closed" : "answered";
+    return markDone(
+      this.name,
+      `Discussion ${discussion.number} is ${status} and user is not directly involved`
     );
-    if (isAssigned) {
-      this.logger.debug(
-        `User ${this.currentUser} is assigned to Plugins Platform Bot PR ${prDetails.number}, not marking as done`
+  }
+}
+
+export class SupersededCheckSuiteFilter implements NotificationFilter {
+  readonly name = "superseded-check-suite";
+
+  evaluate(
+    notification: GitHubNotification,
+    details: SubjectDetails
+  ): FilterVerdict {
+    // Only process CheckSuite notifications
+    if (notification.subject.type !== "CheckSuite") {
+      return noMatch(this.name, "Not a check suite thread");
+    }
+
+    const checkSuite = details.checkSuite;
+
+    // If we don't know which workflow and branch this is, we can't decide
+    if (!checkSuite) {
+      return noMatch(
+        this.name,
+        `No check suite details available for notification ${notification.id}`
       );
-      return false;
     }
 
-    this.logger.info(
-      `Plugins Platform Bot PR ${prDetails.number} opened by ${prDetails.user.login} and user is not directly involved, marking as done`
+    const latestRun = checkSuite.latestRun;
+    const isSuperseded =
+      latestRun !== null &&
+      latestRun.conclusion === "success" &&
+      latestRun.updated_at > notification.updated_at;
+
+    if (!isSuperseded) {
+      return noMatch(
+        this.name,
+        `No later successful ${checkSuite.workflowName} run on ${checkSuite.branch}`
+      );
+    }
+
+    return markDone(
+      this.name,
+      `${checkSuite.workflowName} run on ${checkSuite.branch} was followed by a successful run`
     );
-    return true;
   }
+}
 
-  private isDirectReviewer(prDetails: PullRequestDetails): boolean {
-    // Check if user is in the requested reviewers list
-    const isRequestedReviewer = prDetails.requested_reviewers.some(
-      (reviewer) => reviewer.login === this.currentUser
+function noMatch(rule: string, reason: string): FilterVerdict {
+  return { rule, action: "none", reasons: [reason] };
+}
+
+function markDone(rule: string, reason: string): FilterVerdict {
+  return { rule, action: "done", reasons: [reason] };
+}
+
+function keep(rule: string, reason: string): FilterVerdict {
+  return { rule, action: "keep", reasons: [reason] };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Marks every thread it sees as done; the rule's scope decides which threads
+// those are. Written by the triage command's "always" key.
+export class AnyThreadFilter implements NotificationFilter {
+  readonly name = "any-thread";
+
+  evaluate(notification: GitHubNotification): FilterVerdict {
+    return markDone(
+      this.name,
+      `${notification.subject.type} thread in ${notification.repository.full_name} with reason ${notification.reason}`
     );
+  }
+}
 
-    if (isRequestedReviewer) {
-      return true;
+export interface ReasonFilterOptions {
+  // Notification reasons such as "mention", "review_requested" or "ci_activity"
+  reasons: string[];
+  action: "done" | "keep";
+  // Only act on threads without updates for this long
+  olderThanMs: number | null;
+}
+
+// Acts on threads by why GitHub notified the user. A "keep" reason rule
+// vetoes every other rule, e.g. to never touch threads the user is
+// mentioned in.
+export class ReasonFilter implements NotificationFilter {
+  readonly name = "reason";
+  private options: ReasonFilterOptions;
+
+  constructor(options: ReasonFilterOptions) {
+    this.options = options;
+  }
+
+  evaluate(notification: GitHubNotification): FilterVerdict {
+    if (!this.options.reasons.includes(notification.reason)) {
+      return noMatch(
+        this.name,
+        `Reason ${
+          notification.reason
+        } is not one of ${this.options.reasons.join(", ")}`
+      );
+    }
+
+    const ageMs = Date.now() - new Date(notification.updated_at).getTime();
+    if (this.options.olderThanMs !== null && ageMs < this.options.olderThanMs) {
+      return noMatch(
+        this.name,
+        `Thread with reason ${notification.reason} was updated ${formatAge(
+          ageMs
+        )} ago`
+      );
     }
 
-    return false;
+    const why = `Thread reason is ${notification.reason}`;
+    return this.options.action === "keep"
+      ? keep(this.name, why)
+      : markDone(this.name, why);
   }
 }
-export class CompositeFilter implements NotificationFilter {
+
+function formatAge(ms: number): string {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  return hours >= 48 ? `${Math.floor(hours / 24)} days` : `${hours} hours`;
+}
+
+// A configured rule built from all/any/not conditions: applies its action
+// to the threads the condition matches
+export class MatchFilter implements NotificationFilter {
+  readonly name = "match";
+  private condition: Condition;
+  private action: "done" | "keep";
+
+  constructor(condition: Condition, action: "done" | "keep") {
+    this.condition = condition;
+    this.action = action;
+  }
+
+  evaluate(
+    notification: GitHubNotification,
+    details: SubjectDetails
+  ): FilterVerdict {
+    const outcome = this.condition(notification, details);
+    return {
+      rule: this.name,
+      action: outcome.matched ? this.action : "none",
+      reasons: outcome.reasons,
+    };
+  }
+}
+
+// Wraps a configured filter with the rule's name, the repositories,
+// organizations, reasons and subject types it is limited to, and what its
+// "done" verdicts do. Repositories and organizations are globs or /regular
+// expressions/.
+export class ScopedFilter implements NotificationFilter {
+  readonly name: string;
+  private filter: NotificationFilter;
+  private repos?: string[];
+  private orgs?: string[];
+  private reasons?: string[];
+  private subjectTypes?: string[];
+  private threadAction: ThreadAction;
+
+  constructor(
+    name: string,
+    filter: NotificationFilter,
+    scope: {
+      repos?: string[];
+      orgs?: string[];
+      reasons?: string[];
+      subjectTypes?: string[];
+    },
+    threadAction: ThreadAction = "done"
+  ) {
+    this.name = name;
+    this.filter = filter;
+    this.threadAction = threadAction;
+    this.repos = scope.repos;
+    this.orgs = scope.orgs;
+    this.reasons = scope.reasons;
+    this.subjectTypes = scope.subjectTypes;
+  }
+
+  evaluate(
+    notification: GitHubNotification,
+    details: SubjectDetails
+  ): FilterVerdict {
+    const repo = notification.repository.full_name;
+    if (this.repos && !matchesAnyPattern(repo, this.repos)) {
+      return noMatch(this.name, `Repository ${repo} is outside the rule scope`);
+    }
+
+    const org = notification.repository.owner.login;
+    if (this.orgs && !matchesAnyPattern(org, this.orgs)) {
+      return noMatch(
+        this.name,
+        `Organization ${org} is outside the rule scope`
+      );
+    }
+
+    if (this.reasons && !this.reasons.includes(notification.reason)) {
+      return noMatch(
+        this.name,
+        `Reason ${notification.reason} is outside the rule scope`
+      );
+    }
+
+    const subjectType = notification.subject.type;
+    if (this.subjectTypes && !this.subjectTypes.includes(subjectType)) {
+      return noMatch(
+        this.name,
+        `Subject type ${subjectType} is outside the rule scope`
+      );
+    }
+
+    const verdict = this.filter.evaluate(notification, details);
+    return verdict.action === "done"
+      ? { ...verdict, rule: this.name, threadAction: this.threadAction }
+      : { ...verdict, rule: this.name };
+  }
+}
+
+export class CompositeFilter {
   private filters: NotificationFilter[];
   private logger: Logger;
 
@@ -385,21 +849,44 @@ export class CompositeFilter implements NotificationFilter {
     this.logger = logger;
   }
 
-  shouldMarkAsDone(
+  decide(
     notification: GitHubNotification,
-    prDetails?: PullRequestDetails
-  ): boolean {
-    // If any filter says we should mark as done, we mark it as done
-    for (const filter of this.filters) {
-      if (filter.shouldMarkAsDone(notification, prDetails)) {
-        this.logger.debug(
-          `Filter ${filter.constructor.name} says to mark notification ${notification.id} as done`
-        );
-        return true;
-      }
-    }
-
-    this.logger.debug(`No filters matched for notification ${notification.id}`);
-    return false;
+    details: SubjectDetails
+  ): ThreadDecision {
+    // Every filter is evaluated so the decision can explain all of them
+    const verdicts = this.filters.map((filter) =>
+      filter.evaluate(notification, details)
+    );
+
+    for (const verdict of verdicts) {
+      this.logger.debug(
+        `Rule ${verdict.rule} for thread ${notification.id}: ${
+          verdict.action
+        } (${verdict.reasons.join("; ")})`
+      );
+    }
+
+    // A keep verdict vetoes the rest, otherwise the first done verdict wins
+    const match =
+      verdicts.find((verdict) => verdict.action === "keep") ??
+      verdicts.find((verdict) => verdict.action === "done");
+    if (match) {
+      const keep = match.action === "keep";
+      return {
+        action: keep ? "keep" : "done",
+        rule: match.rule,
+        threadAction: keep ? null : match.threadAction ?? "done",
+        reasons: match.reasons,
+        verdicts,
+      };
+    }
+
+    return {
+      action: "keep",
+      rule: null,
+      threadAction: null,
+      reasons: ["No rule matched"],
+      verdicts,
+    };
   }
 }
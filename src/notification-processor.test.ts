@@ -0,0 +1,422 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { AuditEntry } from "./audit-log";
+import { TeamCacheManager } from "./cache";
+import { NotificationsConfig } from "./config";
+import { NotificationProcessor } from "./notification-processor";
+import { createPlan } from "./plan";
+import { createReport, ReportEntry } from "./report";
+import { GitHubNotification, Logger } from "./types";
+
+const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
+
+type Route = { status: number; body: unknown };
+
+function thread(id: string, updatedAt: string): GitHubNotification {
+  return {
+    id,
+    unread: true,
+    reason: "subscribed",
+    updated_at: updatedAt,
+    last_read_at: null,
+    subject: {
+      title: `Thread ${id}`,
+      url: `https://api.github.com/repos/org/repo/pulls/${id}`,
+      latest_comment_url: null,
+      type: "PullRequest",
+    },
+    repository: {
+      id: 1,
+      name: "repo",
+      full_name: "org/repo",
+      owner: { login: "org", id: 1 },
+    },
+    url: `https://api.github.com/notifications/threads/${id}`,
+    subscription_url: `https://api.github.com/notifications/threads/${id}/subscription`,
+  };
+}
+
+function plannedEntry(threadId: string, action: ReportEntry["action"]) {
+  return {
+    threadId,
+    title: `Thread ${threadId}`,
+    url: `https://github.com/org/repo/pull/${threadId}`,
+    repository: "org/repo",
+    subjectType: "PullRequest",
+    reason: "subscribed",
+    updatedAt: "2024-01-01T00:00:00Z",
+    state: "merged",
+    decision: "done" as const,
+    action,
+    rule: "merged-closed-pr",
+    reasons: ["PR was merged"],
+    teams: [],
+  };
+}
+
+// Answers GitHub API requests by method and path, 404 for anything else.
+// Returns every request made.
+function mockGitHub(route: (request: string) => Route | undefined) {
+  const requests: string[] = [];
+  jest.spyOn(global, "fetch").mockImplementation(async (input, init) => {
+    const url = new URL(
+      typeof input === "string" || input instanceof URL ? input : input.url
+    );
+    const request = `${init?.method ?? "GET"} ${url.pathname}`;
+    requests.push(request);
+    const { status, body } = route(request) ?? {
+      status: 404,
+      body: { message: "Not Found" },
+    };
+    return new Response(status === 204 ? null : JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json" },
+    });
+  });
+  return requests;
+}
+
+describe("NotificationProcessor", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "processor-"));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(dir);
+  });
+
+  function createProcessor(
+    dryRun = false,
+    config: Partial<NotificationsConfig> = {}
+  ) {
+    return new NotificationProcessor(
+      "token",
+      "octocat",
+      logger,
+      dryRun,
+      false,
+      {
+        cacheDir: path.join(dir, "cache"),
+        runHistoryDir: path.join(dir, "runs"),
+        auditLog: path.join(dir, "audit.jsonl"),
+        ...config,
+      }
+    );
+  }
+
+  // Every thread recorded in the run history so far
+  function recordedThreads(): string[] {
+    const runsDir = path.join(dir, "runs");
+    if (!fs.existsSync(runsDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(runsDir)
+      .flatMap((file) =>
+        fs.readFileSync(path.join(runsDir, file), "utf8").trim().split("\n")
+      )
+      .map((line) => JSON.parse(line).threadId);
+  }
+
+  it("loads the teams once per run", async () => {
+    const requests = mockGitHub((request) => {
+      switch (request) {
+        case "GET /user":
+          return { status: 200, body: { login: "someone-else" } };
+        case "GET /user/orgs":
+          return { status: 200, body: [{ login: "org-a", id: 1 }] };
+        case "GET /orgs/org-a/teams":
+          return { status: 403, body: { message: "Forbidden" } };
+        case "GET /notifications":
+          return { status: 200, body: [] };
+      }
+      return undefined;
+    });
+
+    await createProcessor().processNotifications();
+
+    expect(
+      requests.filter((request) => request === "GET /orgs/org-a/teams")
+    ).toHaveLength(1);
+  });
+
+  it("loads the teams again between watch cycles after they failed to load", async () => {
+    let orgsAvailable = false;
+    const requests = mockGitHub((request) => {
+      switch (request) {
+        case "GET /user":
+          return { status: 200, body: { login: "someone-else" } };
+        case "GET /user/orgs":
+          return orgsAvailable
+            ? { status: 200, body: [] }
+            : { status: 403, body: { message: "Forbidden" } };
+      }
+      return undefined;
+    });
+    const processor = createProcessor();
+    const orgLookups = () =>
+      requests.filter((request) => request === "GET /user/orgs").length;
+
+    await processor.processThreads([]);
+    await processor.processThreads([]);
+    expect(orgLookups()).toBe(1);
+
+    orgsAvailable = true;
+    await processor.retryIncompleteTeams();
+    expect(orgLookups()).toBe(2);
+
+    // Loaded teams are kept for the next cycles
+    await processor.retryIncompleteTeams();
+    await processor.processThreads([]);
+    expect(orgLookups()).toBe(2);
+  });
+
+  it("only checks the unchecked orgs again, keeping the teams found", async () => {
+    let orgBAvailable = false;
+    const team = (id: number, slug: string) => ({
+      id,
+      name: slug,
+      slug,
+      parent: null,
+    });
+    const requests = mockGitHub((request) => {
+      switch (request) {
+        case "GET /user":
+          return { status: 200, body: { login: "someone-else" } };
+        case "GET /user/orgs":
+          return {
+            status: 200,
+            body: [
+              { login: "org-a", id: 1 },
+              { login: "org-b", id: 2 },
+            ],
+          };
+        case "GET /orgs/org-a/teams":
+          return { status: 200, body: [team(1, "core")] };
+        case "GET /orgs/org-b/teams":
+          return orgBAvailable
+            ? { status: 200, body: [team(2, "docs")] }
+            : { status: 403, body: { message: "Forbidden" } };
+        case "GET /orgs/org-a/teams/core/memberships/octocat":
+        case "GET /orgs/org-b/teams/docs/memberships/octocat":
+          return { status: 200, body: { state: "active" } };
+      }
+      return undefined;
+    });
+    const processor = createProcessor();
+    await processor.processThreads([]);
+    requests.length = 0;
+
+    orgBAvailable = true;
+    await processor.retryIncompleteTeams();
+
+    expect(requests).toEqual([
+      "GET /orgs/org-b/teams",
+      "GET /orgs/org-b/teams/docs/memberships/octocat",
+    ]);
+    // Complete again, so the teams are cached for the next runs
+    const cached = await new TeamCacheManager(
+      logger,
+      path.join(dir, "cache")
+    ).getCachedTeams("octocat");
+    expect(cached?.map((found) => found.slug)).toEqual(["core", "docs"]);
+  });
+
+  it("records each thread in the run history as soon as it is acted on", async () => {
+    let recordedBeforeSecond: string[] = [];
+    mockGitHub((request) => {
+      switch (request) {
+        case "DELETE /notifications/threads/1":
+          return { status: 204, body: null };
+        case "DELETE /notifications/threads/2":
+          recordedBeforeSecond = recordedThreads();
+          return { status: 422, body: { message: "Unprocessable" } };
+      }
+      return undefined;
+    });
+    const processor = createProcessor(false, {
+      concurrency: 1,
+      rules: [
+        {
+          type: "match",
+          enabled: true,
+          action: "done",
+          when: { reasons: ["subscribed"] },
+        },
+      ],
+    });
+
+    await processor.processThreads([
+      thread("1", "2024-01-01T00:00:00Z"),
+      thread("2", "2024-01-01T00:00:00Z"),
+    ]);
+
+    expect(recordedBeforeSecond).toEqual(["1"]);
+    expect(recordedThreads()).toEqual(["1"]);
+  });
+
+  describe("threads left unread by their action", () => {
+    const unsubscribeRule = {
+      rules: [
+        {
+          type: "match" as const,
+          enabled: true,
+          action: "unsubscribe" as const,
+          when: { reasons: ["subscribed"] },
+        },
+      ],
+    };
+
+    it("aren't acted on again by the next run", async () => {
+      let subscribed = true;
+      const requests = mockGitHub((request) => {
+        switch (request) {
+          case "DELETE /notifications/threads/1/subscription":
+            subscribed = false;
+            return { status: 204, body: null };
+          case "GET /notifications/threads/1/subscription":
+            return subscribed
+              ? { status: 200, body: { subscribed: true, ignored: false } }
+              : undefined;
+        }
+        return undefined;
+      });
+      const processor = createProcessor(false, unsubscribeRule);
+      const unread = thread("1", "2024-01-01T00:00:00Z");
+
+      const first = await processor.processThreads([unread]);
+      const second = await processor.processThreads([unread]);
+
+      expect(first.summary.actions).toEqual({ unsubscribe: 1 });
+      expect(second.summary.actions).toEqual({});
+      expect(
+        requests.filter(
+          (request) =>
+            request === "DELETE /notifications/threads/1/subscription"
+        )
+      ).toHaveLength(1);
+      expect(recordedThreads()).toEqual(["1"]);
+    });
+
+    it("are acted on again after new activity or an undo", async () => {
+      let subscribed = true;
+      const requests = mockGitHub((request) => {
+        switch (request) {
+          case "DELETE /notifications/threads/1/subscription":
+            subscribed = false;
+            return { status: 204, body: null };
+          case "GET /notifications/threads/1/subscription":
+            return subscribed
+              ? { status: 200, body: { subscribed: true, ignored: false } }
+              : undefined;
+        }
+        return undefined;
+      });
+      const processor = createProcessor(false, unsubscribeRule);
+      const unsubscribes = () =>
+        requests.filter(
+          (request) =>
+            request === "DELETE /notifications/threads/1/subscription"
+        ).length;
+
+      await processor.processThreads([thread("1", "2024-01-01T00:00:00Z")]);
+      await processor.processThreads([
+        thread("1", new Date(Date.now() + 60_000).toISOString()),
+      ]);
+      expect(unsubscribes()).toBe(2);
+
+      subscribed = true; // Resubscribed by undo
+      await processor.processThreads([thread("1", "2024-01-01T00:00:00Z")]);
+      expect(unsubscribes()).toBe(3);
+    });
+  });
+
+  describe("applyPlan", () => {
+    const plan = createPlan(
+      createReport({ runId: "plan", user: "octocat", dryRun: true }, [
+        plannedEntry("1", "mute"),
+        plannedEntry("2", "done"),
+      ])
+    );
+
+    function mockThreads() {
+      return mockGitHub((request) => {
+        switch (request) {
+          case "GET /notifications/threads/1":
+            return { status: 200, body: thread("1", "2024-01-01T00:00:00Z") };
+          case "GET /notifications/threads/2":
+            // New activity since the plan was made
+            return { status: 200, body: thread("2", "2024-01-02T00:00:00Z") };
+          case "PUT /notifications/threads/1/subscription":
+            return { status: 200, body: { ignored: true } };
+        }
+        return undefined;
+      });
+    }
+
+    it("applies the planned action and skips threads updated since", async () => {
+      const requests = mockThreads();
+
+      const report = await createProcessor().applyPlan(plan);
+
+      expect(requests).toContain("PUT /notifications/threads/1/subscription");
+      expect(requests).not.toContain("DELETE /notifications/threads/2");
+      expect(
+        report.entries.map(({ threadId, decision, action }) => ({
+          threadId,
+          decision,
+          action,
+        }))
+      ).toEqual([
+        { threadId: "1", decision: "done", action: "mute" },
+        { threadId: "2", decision: "keep", action: null },
+      ]);
+      expect(report.summary.actions).toEqual({ mute: 1 });
+    });
+
+    it("writes every applied and skipped thread to the audit log", async () => {
+      mockThreads();
+
+      const report = await createProcessor().applyPlan(plan);
+
+      const audit = (await fs.readFile(path.join(dir, "audit.jsonl"), "utf8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line) as AuditEntry)
+        .sort((a, b) => a.threadId.localeCompare(b.threadId));
+      expect(audit).toMatchObject([
+        {
+          runId: report.runId,
+          threadId: "1",
+          action: "done",
+          threadAction: "mute",
+        },
+        {
+          runId: report.runId,
+          threadId: "2",
+          action: "keep",
+          threadAction: null,
+        },
+      ]);
+    });
+
+    it("acts on nothing in a dry run", async () => {
+      const requests = mockThreads();
+
+      await createProcessor(true).applyPlan(plan);
+
+      expect(requests.filter((request) => !request.startsWith("GET"))).toEqual(
+        []
+      );
+    });
+  });
+});
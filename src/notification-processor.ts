@@ -1,53 +1,181 @@
 import { GitHubClient } from "./github-client";
 import {
-  MergedClosedPRFilter,
-  RenovatePRFilter,
   CompositeFilter,
-  DependabotPRFilter,
-  PluginsPlatformBotPRFilter,
+  getRequestingTeams,
+  RequestingTeam,
+  TeamMatchOptions,
 } from "./notification-filters";
-import { GitHubNotification, GitHubTeam, Logger } from "./types";
+import {
+  EvaluatedThread,
+  GitHubNotification,
+  GitHubTeam,
+  Logger,
+  NotificationPoll,
+  SubjectDetails,
+  ThreadAction,
+  ThreadDecision,
+  TriageAction,
+} from "./types";
 import { TeamCacheManager } from "./cache";
+import {
+  DEFAULT_CONCURRENCY,
+  DEFAULT_CONFIG,
+  NotificationsConfig,
+  RuleConfig,
+} from "./config";
+import { AuditLog, createAuditEntry } from "./audit-log";
+import {
+  createRunId,
+  DoneThreadRecord,
+  RunHistory,
+  RunHistoryQuery,
+} from "./run-history";
+import { openInBrowser } from "./browser";
+import { createSharedRequests, mapWithConcurrency } from "./concurrency";
+import {
+  DEFAULT_HTTP_CACHE_OPTIONS,
+  getHttpCacheDir,
+  HttpCache,
+} from "./http-cache";
+import {
+  createReport,
+  createReportEntry,
+  formatReport,
+  ProcessingReport,
+  ReportEntry,
+} from "./report";
+import { collectRuleTypes, createFilters } from "./filter-factory";
+import { Condition, repoScope } from "./rule-conditions";
+import {
+  ActionLimitError,
+  checkActionLimits,
+  SafetyError,
+  SafetyOptions,
+} from "./safety";
+import { PlannedThread, ThreadPlan } from "./plan";
+import {
+  createDefaultHandlerRegistry,
+  SubjectHandlerRegistry,
+} from "./subject-handlers";
+
+// How the outcome of each action is logged
+const THREAD_ACTION_WORDING: Record<
+  ThreadAction,
+  { planned: string; applied: string }
+> = {
+  done: { planned: "mark thread as done", applied: "Marked thread as done" },
+  read: { planned: "mark thread as read", applied: "Marked thread as read" },
+  unsubscribe: {
+    planned: "unsubscribe from thread",
+    applied: "Unsubscribed from thread",
+  },
+  "unsubscribe+done": {
+    planned: "unsubscribe from thread and mark it as done",
+    applied: "Unsubscribed from thread and marked it as done",
+  },
+  mute: { planned: "mute thread", applied: "Muted thread" },
+};
+
+// Decides whether a run that exceeds the safety limits goes ahead anyway
+export type ConfirmLargeRun = (
+  plan: ProcessingReport,
+  reason: string
+) => Promise<boolean>;
 
 export class NotificationProcessor {
   private githubClient: GitHubClient;
   private filter: CompositeFilter;
+  private handlers: SubjectHandlerRegistry;
+  private rules: RuleConfig[];
+  private auditLog: AuditLog | null;
+  private runHistory: RunHistory;
   private logger: Logger;
   private currentUser: string;
   private userTeams: GitHubTeam[] | null = null;
+  // False while the teams are missing or incomplete, so a long-running
+  // processor (watch) tries again on its next cycle
+  private teamsComplete = false;
+  private teamsRequested = false;
   private dryRun: boolean;
   private invalidateCache: boolean;
+  private concurrency: number;
+  private teamMatch: TeamMatchOptions;
+  private scope: Condition | null;
+  private safety: SafetyOptions;
+  private confirmLargeRun: ConfirmLargeRun | null = null;
 
   constructor(
     githubToken: string,
     currentUser: string,
     logger: Logger,
     dryRun: boolean = false,
-    invalidateCache: boolean = false
+    invalidateCache: boolean = false,
+    config: NotificationsConfig = DEFAULT_CONFIG
   ) {
-    const cacheManager = new TeamCacheManager(logger);
-    this.githubClient = new GitHubClient(githubToken, logger, cacheManager);
+    const cacheManager = new TeamCacheManager(
+      logger,
+      config.cacheDir,
+      config.cacheTTLHours
+    );
+    const httpCache =
+      config.httpCache === false
+        ? undefined
+        : new HttpCache(logger, getHttpCacheDir(config.cacheDir), {
+            ...DEFAULT_HTTP_CACHE_OPTIONS,
+            ...config.httpCache,
+          });
+    this.githubClient = new GitHubClient(
+      githubToken,
+      logger,
+      cacheManager,
+      httpCache
+    );
     this.currentUser = currentUser;
     this.logger = logger;
     this.dryRun = dryRun;
     this.invalidateCache = invalidateCache;
+    this.concurrency = config.concurrency ?? DEFAULT_CONCURRENCY;
 
-    // Set up filters (teams will be loaded later)
-    const prFilter = new MergedClosedPRFilter(
-      currentUser,
-      logger,
-      () => this.userTeams
+    // PR reviews cost a request per open PR, so only rules that read them
+    // turn them on
+    const fetchReviews = collectRuleTypes(config.rules ?? []).has(
+      "stale-open-pr"
     );
-    const ppbotFilter = new PluginsPlatformBotPRFilter(currentUser, logger);
-    const renovateFilter = new RenovatePRFilter(currentUser, logger);
-    const dependabotFilter = new DependabotPRFilter(currentUser, logger);
-    this.filter = new CompositeFilter(
-      [prFilter, renovateFilter, dependabotFilter, ppbotFilter],
-      logger
+    this.handlers = createDefaultHandlerRegistry(
+      this.githubClient,
+      logger,
+      config.enrichment,
+      fetchReviews
     );
+
+    this.scope = config.scope ? repoScope(config.scope) : null;
+    this.safety = {
+      maxActions: config.safety?.maxActions ?? null,
+      maxActionsPercent: config.safety?.maxActionsPercent ?? null,
+      requireTeams: config.safety?.requireTeams ?? false,
+    };
+    this.teamMatch = {
+      parentTeamRequestsCountAsInvolvement:
+        config.teams?.parentTeamRequestsCountAsInvolvement ?? true,
+      policies: config.teams?.policies ?? {},
+      defaultPolicy: config.teams?.defaultPolicy ?? "owner",
+    };
+
+    // Set up filters from the configured rules (teams will be loaded later)
+    this.rules = config.rules ?? this.handlers.getDefaultRules();
+    const filters = createFilters(this.rules, {
+      currentUser,
+      getUserTeams: () => this.userTeams,
+      teamMatch: this.teamMatch,
+    });
+    this.filter = new CompositeFilter(filters, logger);
+
+    this.auditLog =
+      config.auditLog === false ? null : new AuditLog(logger, config.auditLog);
+    this.runHistory = new RunHistory(logger, config.runHistoryDir);
   }
 
-  async processNotifications(): Promise<void> {
+  async processNotifications(): Promise<ProcessingReport> {
     try {
       this.logger.info("Starting thread processing...");
 
@@ -57,103 +185,717 @@ export class NotificationProcessor {
       // Get all unread notifications (threads)
       const notifications = await this.githubClient.getNotifications();
 
+      return await this.processThreads(notifications);
+    } catch (error) {
+      this.logger.error("Failed to process threads:", error);
+      throw error;
+    }
+  }
+
+  async pollNotifications(
+    lastModified: string | null
+  ): Promise<NotificationPoll> {
+    return this.githubClient.pollNotifications(lastModified);
+  }
+
+  async processThreads(
+    allNotifications: GitHubNotification[]
+  ): Promise<ProcessingReport> {
+    try {
+      await this.loadUserTeams();
+      const notifications = this.applyScope(allNotifications);
+
+      const runId = createRunId();
+      const entries: ReportEntry[] = [];
+      const report = () =>
+        createReport(
+          { runId, user: this.currentUser, dryRun: this.dryRun },
+          entries
+        );
+
       if (notifications.length === 0) {
         this.logger.info("No unread threads found");
-        return;
+        return report();
+      }
+
+      // Fetch details in parallel, then decide and log in thread order
+      const threads = await this.skipSettledThreads(
+        await this.evaluateThreads(notifications)
+      );
+      await this.checkSafetyLimits(
+        runId,
+        threads
+          .filter(({ decision }) => decision.threadAction)
+          .map(({ notification, details, decision }) =>
+            createReportEntry(
+              notification,
+              this.githubClient.getHtmlUrl(notification),
+              details,
+              decision
+            )
+          ),
+        threads.length
+      );
+
+      for (const { notification, decision } of threads) {
+        await this.auditLog?.append(
+          createAuditEntry(notification, decision, {
+            runId,
+            dryRun: this.dryRun,
+          })
+        );
       }
 
+      // Apply the rules' actions in parallel, keeping failures per thread
+      const outcomes = await mapWithConcurrency(
+        threads,
+        this.concurrency,
+        async ({ notification, decision }) => {
+          if (!decision.threadAction || this.dryRun) {
+            return { error: null };
+          }
+          try {
+            await this.applyAndRecord(
+              notification,
+              decision.threadAction,
+              runId,
+              decision.rule
+            );
+            return { error: null };
+          } catch (error) {
+            return { error };
+          }
+        }
+      );
+
       let processedCount = 0;
-      let markedAsDoneCount = 0;
+      const actionCounts = new Map<ThreadAction, number>();
 
-      for (const notification of notifications) {
-        try {
-          this.logger.debug(
-            `Processing thread ${notification.id}: ${notification.subject.title}`
+      for (const [index, thread] of threads.entries()) {
+        const { notification, details, decision } = thread;
+        const { error } = outcomes[index];
+        const url = this.githubClient.getHtmlUrl(notification);
+
+        if (error) {
+          this.logger.error(
+            `Error processing thread ${notification.id}:`,
+            error
           );
+          entries.push({
+            ...createReportEntry(
+              notification,
+              url,
+              details,
+              decision,
+              this.getRequestingTeams(details)
+            ),
+            decision: "error",
+            rule: null,
+            reasons: [error instanceof Error ? error.message : String(error)],
+          });
+          continue;
+        }
 
-          // Get PR details if this is a PR thread
-          let prDetails = undefined;
-          if (notification.subject.type === "PullRequest") {
-            const prInfo = this.githubClient.extractPullRequestInfo(
-              notification.subject.url
+        const threadAction = decision.threadAction;
+        if (threadAction) {
+          const why = `${decision.rule}: ${decision.reasons.join("; ")}`;
+          const wording = THREAD_ACTION_WORDING[threadAction];
+          if (this.dryRun) {
+            this.logger.info(
+              `[DRY RUN] Would ${wording.planned}: ${notification.subject.title} (${why})`
+            );
+          } else {
+            this.logger.info(
+              `${wording.applied}: ${notification.subject.title} (${why})`
             );
-            if (prInfo) {
-              try {
-                prDetails = await this.githubClient.getPullRequestDetails(
-                  prInfo.owner,
-                  prInfo.repo,
-                  prInfo.pullNumber
-                );
-              } catch (error) {
-                this.logger.warn(
-                  `Failed to fetch PR details for thread ${notification.id}:`,
-                  error
-                );
-                // Continue processing without PR details
-              }
-            }
           }
+          actionCounts.set(
+            threadAction,
+            (actionCounts.get(threadAction) ?? 0) + 1
+          );
+        } else {
+          this.logger.debug(`Keeping thread: ${notification.subject.title}`);
+        }
 
-          // Check if we should mark this thread as done
-          if (this.filter.shouldMarkAsDone(notification, prDetails)) {
-            if (this.dryRun) {
-              this.logger.info(
-                `[DRY RUN] Would mark thread as done: ${notification.subject.title}`
-              );
-              markedAsDoneCount++;
-            } else {
-              await this.githubClient.markThreadAsDone(notification.id);
-              markedAsDoneCount++;
-              this.logger.info(
-                `Marked thread as done: ${notification.subject.title}`
+        entries.push(
+          createReportEntry(
+            notification,
+            url,
+            details,
+            decision,
+            this.getRequestingTeams(details)
+          )
+        );
+        processedCount++;
+      }
+
+      const actedCount = [...actionCounts.values()].reduce(
+        (total, count) => total + count,
+        0
+      );
+      const breakdown = [...actionCounts.entries()]
+        .map(([threadAction, count]) => `${count} ${threadAction}`)
+        .join(", ");
+      this.logger.info(
+        `Processing complete. Processed ${processedCount} threads, ${actedCount} ${
+          this.dryRun ? "would be acted on" : "acted on"
+        }${breakdown ? ` (${breakdown})` : ""}`
+      );
+      if (!this.dryRun && actedCount > 0) {
+        this.logger.info(`Run ID: ${runId} (use it with the undo command)`);
+      }
+
+      const cacheSummary = await this.githubClient.finishHttpCache();
+      if (cacheSummary) {
+        this.logger.info(`HTTP cache: ${cacheSummary}`);
+      }
+      const budget = this.githubClient.getRateLimitSummary();
+      if (budget) {
+        this.logger.info(`GitHub API budget: ${budget}`);
+      }
+
+      return report();
+    } catch (error) {
+      this.logger.error("Failed to process threads:", error);
+      throw error;
+    }
+  }
+
+  // Applies a plan made by an earlier dry run. Threads updated since the
+  // plan was made are skipped, as their decision may no longer hold.
+  async applyPlan(plan: ThreadPlan): Promise<ProcessingReport> {
+    try {
+      const runId = createRunId();
+      // A planned thread is decided the way its rule decided it when the plan
+      // was made: "done" with the rule's action, like processThreads
+      const plannedDecision = (planned: PlannedThread): ThreadDecision => ({
+        action: "done",
+        rule: planned.rule,
+        threadAction: planned.action,
+        reasons: planned.reasons,
+        verdicts: [],
+      });
+      const plannedEntry = (
+        planned: PlannedThread,
+        decision: ThreadDecision
+      ): ReportEntry => ({
+        threadId: planned.threadId,
+        title: planned.title,
+        url: planned.url,
+        repository: planned.repository,
+        subjectType: planned.subjectType,
+        reason: planned.reason,
+        updatedAt: planned.updatedAt,
+        state: null,
+        decision: decision.action,
+        action: decision.threadAction,
+        rule: decision.rule,
+        reasons: decision.reasons,
+        teams: [],
+      });
+
+      await this.checkSafetyLimits(
+        runId,
+        plan.threads.map((planned) =>
+          plannedEntry(planned, plannedDecision(planned))
+        ),
+        plan.threadCount
+      );
+
+      const outcomes = await mapWithConcurrency(
+        plan.threads,
+        this.concurrency,
+        async (planned) => {
+          try {
+            const thread = await this.githubClient.getThread(planned.threadId);
+            // New activity may change the decision, so the thread is kept
+            const decision: ThreadDecision =
+              thread.updated_at === planned.updatedAt
+                ? plannedDecision(planned)
+                : {
+                    action: "keep",
+                    rule: null,
+                    threadAction: null,
+                    reasons: [
+                      `Thread was updated at ${thread.updated_at}, after the plan was made`,
+                    ],
+                    verdicts: [],
+                  };
+            await this.auditLog?.append(
+              createAuditEntry(thread, decision, {
+                runId,
+                dryRun: this.dryRun,
+              })
+            );
+
+            if (decision.threadAction && !this.dryRun) {
+              await this.applyAndRecord(
+                thread,
+                decision.threadAction,
+                runId,
+                planned.rule
               );
             }
-          } else {
-            this.logger.debug(`Keeping thread: ${notification.subject.title}`);
+            return { decision, error: null };
+          } catch (error) {
+            return { decision: plannedDecision(planned), error };
           }
+        }
+      );
 
-          processedCount++;
+      const entries: ReportEntry[] = [];
+      let appliedCount = 0;
+      for (const [index, planned] of plan.threads.entries()) {
+        const { decision, error } = outcomes[index];
 
-          // Add a small delay to avoid rate limiting
-          await this.delay(100);
-        } catch (error) {
+        if (error) {
           this.logger.error(
-            `Error processing thread ${notification.id}:`,
+            `Error applying plan to thread ${planned.threadId}:`,
             error
           );
-          // Continue with next thread
+          entries.push({
+            ...plannedEntry(planned, decision),
+            decision: "error",
+            reasons: [error instanceof Error ? error.message : String(error)],
+          });
+          continue;
+        }
+
+        entries.push(plannedEntry(planned, decision));
+        if (!decision.threadAction) {
+          this.logger.info(
+            `Skipping ${planned.title}: ${decision.reasons.join("; ")}`
+          );
+          continue;
+        }
+
+        const wording = THREAD_ACTION_WORDING[decision.threadAction];
+        if (this.dryRun) {
+          this.logger.info(
+            `[DRY RUN] Would ${wording.planned}: ${planned.title} (${planned.rule})`
+          );
+        } else {
+          this.logger.info(
+            `${wording.applied}: ${planned.title} (${planned.rule})`
+          );
         }
+        appliedCount++;
       }
 
-      const action = this.dryRun ? "would be marked" : "marked";
       this.logger.info(
-        `Processing complete. Processed ${processedCount} threads, ${markedAsDoneCount} ${action} as done`
+        `Plan ${plan.runId} ${
+          this.dryRun ? "would be applied" : "applied"
+        } to ${appliedCount} of ${plan.threads.length} threads, ${
+          plan.threads.length - appliedCount
+        } skipped or failed`
+      );
+      if (!this.dryRun && appliedCount > 0) {
+        this.logger.info(`Run ID: ${runId} (use it with the undo command)`);
+      }
+
+      return createReport(
+        { runId, user: this.currentUser, dryRun: this.dryRun },
+        entries
       );
     } catch (error) {
-      this.logger.error("Failed to process threads:", error);
+      this.logger.error("Failed to apply plan:", error);
       throw error;
     }
   }
 
+  // Evaluates every unread thread without acting and returns the ones no
+  // rule marks as done, for interactive triage
+  async getKeptThreads(): Promise<EvaluatedThread[]> {
+    await this.loadUserTeams();
+    const notifications = this.applyScope(
+      await this.githubClient.getNotifications()
+    );
+
+    const threads = await this.evaluateThreads(notifications);
+    return threads.filter((thread) => thread.decision.action === "keep");
+  }
+
+  // Recorded in the run history under the triage session's run ID, so
+  // triaged threads can be restored with undo like processed ones
+  async applyTriageAction(
+    notification: GitHubNotification,
+    action: TriageAction,
+    runId: string,
+    rule: string
+  ): Promise<void> {
+    await this.applyAndRecord(notification, action, runId, rule);
+  }
+
+  // Unsubscribing and muting leave a thread unread, so the next run would act
+  // on it again. Threads an earlier run already unsubscribed from or muted,
+  // with no activity since, are left out while their subscription shows the
+  // action still holds; after an undo they are acted on again.
+  private async skipSettledThreads(
+    threads: EvaluatedThread[]
+  ): Promise<EvaluatedThread[]> {
+    const lingering = (action: ThreadAction | null) =>
+      action === "unsubscribe" || action === "mute";
+    if (!threads.some(({ decision }) => lingering(decision.threadAction))) {
+      return threads;
+    }
+
+    // Records are in run order, so the last one per thread is the latest
+    const latestRecords = new Map<string, DoneThreadRecord>();
+    for (const record of await this.runHistory.findThreads({})) {
+      latestRecords.set(record.threadId, record);
+    }
+
+    const settled = await mapWithConcurrency(
+      threads,
+      this.concurrency,
+      async ({ notification, decision }) => {
+        const record = latestRecords.get(notification.id);
+        if (
+          !lingering(decision.threadAction) ||
+          record?.action !== decision.threadAction ||
+          new Date(notification.updated_at) > new Date(record.markedAt)
+        ) {
+          return null;
+        }
+
+        try {
+          const subscription = await this.githubClient.getThreadSubscription(
+            notification.id
+          );
+          const holds =
+            record.action === "mute"
+              ? subscription?.ignored === true
+              : !subscription?.subscribed;
+          return holds ? record : null;
+        } catch (error) {
+          // Acting again is harmless, missing a thread is not
+          this.logger.debug(
+            `Could not check the subscription to thread ${notification.id}:`,
+            error
+          );
+          return null;
+        }
+      }
+    );
+
+    return threads.filter(({ notification }, index) => {
+      const record = settled[index];
+      if (record?.action) {
+        this.logger.info(
+          `Skipping ${notification.subject.title}: ${THREAD_ACTION_WORDING[
+            record.action
+          ].applied.toLowerCase()} in run ${record.runId}`
+        );
+      }
+      return !record;
+    });
+  }
+
+  // Records the thread in the run history as soon as the action is applied,
+  // so an interrupted run can still be undone. Marking as read can't be
+  // undone, so it isn't recorded.
+  private async applyAndRecord(
+    notification: GitHubNotification,
+    action: ThreadAction,
+    runId: string,
+    rule: string | null
+  ): Promise<void> {
+    await this.applyThreadAction(notification, action);
+    if (action !== "read") {
+      await this.runHistory.recordDoneThread({
+        runId,
+        threadId: notification.id,
+        title: notification.subject.title,
+        url: this.githubClient.getHtmlUrl(notification),
+        repository: notification.repository.full_name,
+        subjectType: notification.subject.type,
+        rule,
+        action,
+        markedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  private async applyThreadAction(
+    notification: GitHubNotification,
+    action: ThreadAction
+  ): Promise<void> {
+    switch (action) {
+      case "done":
+        await this.githubClient.markThreadAsDone(notification.id);
+        break;
+      case "read":
+        await this.githubClient.markThreadAsRead(notification.id);
+        break;
+      case "unsubscribe":
+        await this.githubClient.unsubscribeFromThread(notification.id);
+        break;
+      case "unsubscribe+done":
+        // Unsubscribe first so no update slips in after marking as done
+        await this.githubClient.unsubscribeFromThread(notification.id);
+        await this.githubClient.markThreadAsDone(notification.id);
+        break;
+      case "mute":
+        await this.githubClient.muteThread(notification.id);
+        break;
+    }
+  }
+
+  getHtmlUrl(notification: GitHubNotification): string {
+    return this.githubClient.getHtmlUrl(notification);
+  }
+
+  // The rules in effect: the configured ones or the handlers' defaults
+  getRules(): RuleConfig[] {
+    return this.rules;
+  }
+
+  private async evaluateThreads(
+    notifications: GitHubNotification[]
+  ): Promise<EvaluatedThread[]> {
+    await this.handlers.prefetch(notifications);
+
+    // Threads about the same subject share one request
+    const shareRequest = createSharedRequests<SubjectDetails>();
+
+    const fetched = await mapWithConcurrency(
+      notifications,
+      this.concurrency,
+      async (notification) => {
+        const handler = this.handlers.get(notification.subject.type);
+        if (!handler) {
+          return { details: {}, error: null };
+        }
+
+        try {
+          return {
+            details: await shareRequest(notification.subject.url, () =>
+              handler.fetchDetails(notification)
+            ),
+            error: null,
+          };
+        } catch (error) {
+          return { details: {}, error };
+        }
+      }
+    );
+
+    return notifications.map((notification, index) => {
+      this.logger.debug(
+        `Processing thread ${notification.id}: ${notification.subject.title}`
+      );
+
+      const { details, error } = fetched[index];
+      if (error) {
+        this.logger.warn(
+          `Failed to fetch ${notification.subject.type} details for thread ${notification.id}:`,
+          error
+        );
+        // Continue processing without details
+      }
+
+      const decision = this.filter.decide(notification, details);
+      return { notification, details, decision };
+    });
+  }
+
+  async undoThreads(query: RunHistoryQuery, open: boolean): Promise<void> {
+    const records = await this.runHistory.findThreads(query);
+
+    if (records.length === 0) {
+      this.logger.info("No threads marked as done match the given filters");
+      return;
+    }
+
+    this.logger.info(`Restoring ${records.length} threads`);
+
+    let restoredCount = 0;
+    for (const record of records) {
+      this.logger.info(
+        `${record.repository}: ${record.title} (run ${record.runId}, rule ${
+          record.rule ?? "unknown"
+        })`
+      );
+      this.logger.info(`  ${record.url}`);
+
+      if (this.dryRun) {
+        this.logger.info(
+          `[DRY RUN] Would resubscribe to thread ${record.threadId}`
+        );
+      } else {
+        try {
+          // GitHub has no API to move a thread back to the inbox, so
+          // resubscribe to get future activity and show where it lives
+          await this.githubClient.resubscribeToThread(record.threadId);
+          restoredCount++;
+        } catch (error) {
+          this.logger.warn(
+            `Could not resubscribe to thread ${record.threadId}, open it manually`
+          );
+        }
+      }
+
+      if (open) {
+        openInBrowser(record.url);
+      }
+    }
+
+    if (!this.dryRun) {
+      this.logger.info(
+        `Resubscribed to ${restoredCount} of ${records.length} threads`
+      );
+    }
+  }
+
+  // Asked before acting when a run exceeds the safety limits; without it
+  // such runs stop with an ActionLimitError
+  setConfirmLargeRun(confirm: ConfirmLargeRun | null): void {
+    this.confirmLargeRun = confirm;
+  }
+
+  // Stops before acting when the planned actions exceed the safety limits,
+  // unless confirmed
+  private async checkSafetyLimits(
+    runId: string,
+    planned: ReportEntry[],
+    threadCount: number
+  ): Promise<void> {
+    const exceeded = checkActionLimits(
+      planned.length,
+      threadCount,
+      this.safety
+    );
+    if (!exceeded) {
+      return;
+    }
+    if (this.dryRun) {
+      this.logger.warn(`${exceeded}, a real run would stop before acting`);
+      return;
+    }
+
+    const plan = createReport(
+      { runId, user: this.currentUser, dryRun: true },
+      planned
+    );
+    this.logger.warn(
+      `${exceeded}. Planned actions:\n${formatReport(plan, "table")}`
+    );
+
+    if (!(await this.confirmLargeRun?.(plan, exceeded))) {
+      throw new ActionLimitError(
+        `${exceeded}, stopped before acting on any thread (use --force to go ahead)`
+      );
+    }
+  }
+
+  // Leaves out the threads of repositories outside the configured scope
+  private applyScope(
+    notifications: GitHubNotification[]
+  ): GitHubNotification[] {
+    if (!this.scope) {
+      return notifications;
+    }
+    const scope = this.scope;
+    const inScope = notifications.filter(
+      (notification) => scope(notification, {}).matched
+    );
+    const skipped = notifications.length - inScope.length;
+    if (skipped > 0) {
+      this.logger.info(
+        `Skipping ${skipped} threads outside the configured repository scope`
+      );
+    }
+    return inScope;
+  }
+
+  // The user's teams requested for review on a PR thread, for team stats
+  private getRequestingTeams(details: SubjectDetails): RequestingTeam[] {
+    return details.pullRequest
+      ? getRequestingTeams(details.pullRequest, this.userTeams, this.teamMatch)
+      : [];
+  }
+
+  // Loads the teams once per processor; retryIncompleteTeams fills the gaps
+  // between watch cycles
   private async loadUserTeams(): Promise<void> {
     if (this.userTeams === null) {
+      // Only the first lookup skips the cache, retries may use what it saved
+      const invalidateCache = this.invalidateCache && !this.teamsRequested;
+      this.teamsRequested = true;
       try {
         this.logger.info(`Loading teams for user: ${this.currentUser}`);
         this.userTeams = await this.githubClient.getUserTeams(
           this.currentUser,
-          this.invalidateCache
+          invalidateCache
         );
         this.logger.info(
           `Loaded ${this.userTeams.length} teams for user ${this.currentUser}`
         );
       } catch (error) {
+        this.teamsComplete = false;
+        if (this.safety.requireTeams) {
+          throw new SafetyError(
+            `Failed to load teams for user ${this.currentUser}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
         this.logger.warn(
           `Failed to load teams for user ${this.currentUser}, continuing without team data:`,
           error
         );
         this.userTeams = [];
+        return;
       }
+      this.teamsComplete = this.githubClient.getUncheckedOrgs().length === 0;
+    }
+
+    const uncheckedOrgs = this.githubClient.getUncheckedOrgs();
+    if (this.safety.requireTeams && uncheckedOrgs.length > 0) {
+      throw new SafetyError(
+        `Could not check team memberships in ${uncheckedOrgs
+          .map((unchecked) => unchecked.org)
+          .join(", ")}`
+      );
+    }
+  }
+
+  // For long-running watches: loads the teams again when they failed to load,
+  // or checks the orgs whose memberships couldn't be checked
+  async retryIncompleteTeams(): Promise<void> {
+    if (this.userTeams === null || this.teamsComplete) {
+      return;
+    }
+
+    if (this.githubClient.getUncheckedOrgs().length === 0) {
+      this.userTeams = null;
+      await this.loadUserTeams();
+      return;
+    }
+
+    try {
+      this.userTeams = await this.githubClient.retryUncheckedOrgs(
+        this.currentUser,
+        this.userTeams
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to check team memberships again for user ${this.currentUser}:`,
+        error
+      );
+      return;
     }
+    this.teamsComplete = this.githubClient.getUncheckedOrgs().length === 0;
+  }
+
+  // Fetches the user's teams from GitHub and replaces the cached list
+  async refreshTeams(): Promise<GitHubTeam[]> {
+    this.userTeams = await this.githubClient.getUserTeams(
+      this.currentUser,
+      true
+    );
+    this.teamsComplete = this.githubClient.getUncheckedOrgs().length === 0;
+    return this.userTeams;
   }
 
   async testConnection(): Promise<void> {
@@ -174,6 +916,12 @@ export class NotificationProcessor {
         }`
       );
 
+      for (const { org, reason } of this.githubClient.getUncheckedOrgs()) {
+        this.logger.warn(
+          `⚠️ Could not check team memberships in ${org}: ${reason}`
+        );
+      }
+
       if (this.invalidateCache) {
         this.logger.info(`✅ Cache invalidation was requested and completed`);
       }
@@ -182,8 +930,4 @@ export class NotificationProcessor {
       throw error;
     }
   }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
@@ -0,0 +1,45 @@
+import { matchesAnyPattern, matchesPattern } from "./patterns";
+
+describe("matchesPattern", () => {
+  it("matches logins case-insensitively", () => {
+    expect(matchesPattern("Dependabot[bot]", "dependabot[bot]")).toBe(true);
+  });
+
+  it("treats brackets literally", () => {
+    expect(matchesPattern("dependabot[bot]", "dependabot[bot]")).toBe(true);
+    expect(matchesPattern("dependabotb", "dependabot[bot]")).toBe(false);
+  });
+
+  it("matches * and ? within one path segment", () => {
+    expect(matchesPattern("renovate-sh-app[bot]", "renovate*[bot]")).toBe(true);
+    expect(matchesPattern("renovate[bot]", "renovate*[bot]")).toBe(true);
+    expect(matchesPattern("my-org/app", "my-org/ap?")).toBe(true);
+    expect(matchesPattern("my-org/app/extra", "my-org/*")).toBe(false);
+    expect(matchesPattern("my-org/app/extra", "my-org/**")).toBe(true);
+  });
+
+  it("does not treat other characters as wildcards", () => {
+    expect(matchesPattern("my-orgXapp", "my-org.app")).toBe(false);
+  });
+
+  it("supports regular expressions between slashes", () => {
+    expect(matchesPattern("grafana/foo-app", "/^grafana\\/.*-app$/")).toBe(
+      true
+    );
+    expect(matchesPattern("Grafana/foo-app", "/^grafana\\/.*-app$/")).toBe(
+      false
+    );
+    expect(matchesPattern("Grafana/foo-app", "/^grafana\\/.*-app$/i")).toBe(
+      true
+    );
+  });
+});
+
+describe("matchesAnyPattern", () => {
+  it("matches when one of the patterns does", () => {
+    expect(
+      matchesAnyPattern("renovate[bot]", ["dependabot*", "renovate*"])
+    ).toBe(true);
+    expect(matchesAnyPattern("renovate[bot]", [])).toBe(false);
+  });
+});
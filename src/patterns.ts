@@ -0,0 +1,39 @@
+// Glob support for logins and other identifiers: "*" matches any run of
+// characters except "/", "**" also crosses "/", and "?" matches a single
+// character. Matching is case-insensitive because GitHub logins are.
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        source += ".*";
+        i++;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`, "i");
+}
+
+// A pattern between slashes, optionally followed by flags, is a regular
+// expression, e.g. "/^grafana\/.*-app$/i". Anything else is a glob.
+export function patternToRegExp(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return regex ? new RegExp(regex[1], regex[2]) : globToRegExp(pattern);
+}
+
+export function matchesPattern(value: string, pattern: string): boolean {
+  return patternToRegExp(pattern).test(value);
+}
+
+export function matchesAnyPattern(value: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesPattern(value, pattern));
+}
@@ -0,0 +1,81 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { createPlan, PlanError, readPlan, writePlan } from "./plan";
+import { createReport, ReportEntry } from "./report";
+
+function entry(overrides: Partial<ReportEntry>): ReportEntry {
+  return {
+    threadId: "1",
+    title: "Bump lodash",
+    url: "https://github.com/org/repo/pull/1",
+    repository: "org/repo",
+    subjectType: "PullRequest",
+    reason: "review_requested",
+    updatedAt: "2024-01-01T00:00:00Z",
+    state: "merged",
+    decision: "done",
+    action: "done",
+    rule: "merged-closed-pr",
+    reasons: ["PR was merged"],
+    teams: [],
+    ...overrides,
+  };
+}
+
+describe("createPlan", () => {
+  it("plans only the threads a rule acts on", () => {
+    const report = createReport({ runId: "run", user: "me", dryRun: true }, [
+      entry({ threadId: "1", action: "mute" }),
+      entry({ threadId: "2", decision: "keep", action: null }),
+      entry({ threadId: "3", decision: "error", action: null }),
+    ]);
+
+    const plan = createPlan(report);
+
+    expect(plan.threadCount).toBe(3);
+    expect(plan.threads).toHaveLength(1);
+    expect(plan.threads[0]).toMatchObject({
+      threadId: "1",
+      action: "mute",
+      updatedAt: "2024-01-01T00:00:00Z",
+    });
+  });
+});
+
+describe("readPlan", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "plan-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("reads back a written plan", async () => {
+    const report = createReport({ runId: "run", user: "me", dryRun: true }, [
+      entry({}),
+    ]);
+    const plan = createPlan(report);
+    const planPath = path.join(dir, "plan.json");
+
+    await writePlan(plan, planPath);
+
+    expect(await readPlan(planPath)).toEqual(plan);
+  });
+
+  it("rejects plans with unknown actions", async () => {
+    const planPath = path.join(dir, "plan.json");
+    const plan = createPlan(
+      createReport({ runId: "run", user: "me", dryRun: true }, [entry({})])
+    );
+    await fs.writeJson(planPath, {
+      ...plan,
+      threads: [{ ...plan.threads[0], action: "delete" }],
+    });
+
+    await expect(readPlan(planPath)).rejects.toThrow(PlanError);
+  });
+});
@@ -0,0 +1,100 @@
+import * as fs from "fs-extra";
+import { z } from "zod";
+import { ProcessingReport } from "./report";
+
+export const PLAN_VERSION = 1;
+
+const plannedThreadSchema = z.object({
+  threadId: z.string().min(1),
+  title: z.string(),
+  url: z.string(),
+  repository: z.string(),
+  subjectType: z.string(),
+  reason: z.string(),
+  // The thread's updated_at when planned; apply skips threads that changed
+  updatedAt: z.string().min(1),
+  action: z.enum(["done", "read", "unsubscribe", "unsubscribe+done", "mute"]),
+  rule: z.string().nullable(),
+  reasons: z.array(z.string()),
+});
+
+const planSchema = z.object({
+  version: z.literal(PLAN_VERSION),
+  runId: z.string().min(1),
+  user: z.string().min(1),
+  createdAt: z.string(),
+  // How many threads the plan was made from, for the safety limits
+  threadCount: z.number().int().min(0),
+  threads: z.array(plannedThreadSchema),
+});
+
+export type PlannedThread = z.infer<typeof plannedThreadSchema>;
+export type ThreadPlan = z.infer<typeof planSchema>;
+
+export class PlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanError";
+  }
+}
+
+// The actions a dry run decided on, to be applied later exactly as planned
+export function createPlan(report: ProcessingReport): ThreadPlan {
+  const threads: PlannedThread[] = [];
+  for (const entry of report.entries) {
+    if (entry.decision === "done" && entry.action) {
+      threads.push({
+        threadId: entry.threadId,
+        title: entry.title,
+        url: entry.url,
+        repository: entry.repository,
+        subjectType: entry.subjectType,
+        reason: entry.reason,
+        updatedAt: entry.updatedAt,
+        action: entry.action,
+        rule: entry.rule,
+        reasons: entry.reasons,
+      });
+    }
+  }
+
+  return {
+    version: PLAN_VERSION,
+    runId: report.runId,
+    user: report.user,
+    createdAt: report.generatedAt,
+    threadCount: report.summary.total,
+    threads,
+  };
+}
+
+export async function writePlan(
+  plan: ThreadPlan,
+  outputPath: string
+): Promise<void> {
+  await fs.writeJson(outputPath, plan, { spaces: 2 });
+}
+
+export async function readPlan(planPath: string): Promise<ThreadPlan> {
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(planPath);
+  } catch (error) {
+    throw new PlanError(
+      `Failed to read plan ${planPath}: ${(error as Error).message}`
+    );
+  }
+
+  const result = planSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => {
+        const location =
+          issue.path.length > 0 ? issue.path.join(".") : "(root)";
+        return `  - ${location}: ${issue.message}`;
+      })
+      .join("\n");
+    throw new PlanError(`Invalid plan ${planPath}:\n${issues}`);
+  }
+  return result.data;
+}
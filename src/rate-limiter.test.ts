@@ -0,0 +1,149 @@
+import {
+  DEFAULT_RATE_LIMITER_OPTIONS,
+  OctokitError,
+  RateLimiter,
+} from "./rate-limiter";
+import { Logger } from "./types";
+
+function httpError(
+  status: number,
+  message = `HTTP ${status}`,
+  headers: Record<string, string> = {}
+): OctokitError {
+  return { status, message, response: { headers } };
+}
+
+// Fails with the given errors in turn, then succeeds
+function failingWith(errors: OctokitError[]) {
+  let calls = 0;
+  const send = jest.fn(async () => {
+    const error = errors[calls++];
+    if (error) {
+      throw error;
+    }
+    return { headers: {}, data: "ok" };
+  });
+  return send;
+}
+
+describe("RateLimiter", () => {
+  let warnings: string[];
+  let logger: Logger;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    warnings = [];
+    logger = {
+      info: () => undefined,
+      warn: (message: string) => warnings.push(message),
+      error: () => undefined,
+      debug: () => undefined,
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("retries server errors with backoff", async () => {
+    const limiter = new RateLimiter(logger);
+    const send = failingWith([httpError(502)]);
+
+    const result = limiter.schedule("GET /x", "core", send);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toMatchObject({ data: "ok" });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry permission errors", async () => {
+    const limiter = new RateLimiter(logger);
+    const send = failingWith([httpError(403, "Resource not accessible")]);
+
+    await expect(limiter.schedule("GET /x", "core", send)).rejects.toEqual(
+      httpError(403, "Resource not accessible")
+    );
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry other client errors", async () => {
+    const limiter = new RateLimiter(logger);
+    const send = failingWith([httpError(404)]);
+
+    await expect(limiter.schedule("GET /x", "core", send)).rejects.toEqual(
+      httpError(404)
+    );
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits a minute after a secondary rate limit", async () => {
+    const limiter = new RateLimiter(logger);
+    const send = failingWith([
+      httpError(403, "You have exceeded a secondary rate limit"),
+      httpError(429),
+    ]);
+
+    const result = limiter.schedule("GET /x", "core", send);
+    await jest.advanceTimersByTimeAsync(59 * 1000);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(2 * 60 * 1000);
+    await expect(result).resolves.toMatchObject({ data: "ok" });
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    const limiter = new RateLimiter(logger);
+    const send = failingWith([httpError(429, "", { "retry-after": "5" })]);
+
+    const result = limiter.schedule("GET /x", "core", send);
+    await jest.advanceTimersByTimeAsync(5000);
+
+    await expect(result).resolves.toMatchObject({ data: "ok" });
+    expect(warnings[0]).toContain("retrying in 5s");
+  });
+
+  it("caps the backoff and gives up after the last retry", async () => {
+    const limiter = new RateLimiter(logger, {
+      ...DEFAULT_RATE_LIMITER_OPTIONS,
+      maxRetries: 4,
+      baseDelayMs: 1000,
+      maxDelayMs: 4000,
+    });
+    const send = failingWith(Array.from({ length: 5 }, () => httpError(500)));
+
+    const result = limiter.schedule("GET /x", "core", send);
+    result.catch(() => undefined);
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    await expect(result).rejects.toEqual(httpError(500));
+    expect(send).toHaveBeenCalledTimes(5);
+    expect(
+      warnings.map((warning) => warning.match(/retrying in (\d+)s/)?.[1])
+    ).toEqual(["1", "2", "4", "4"]);
+  });
+
+  it("pauses until the reset when the budget runs low", async () => {
+    const limiter = new RateLimiter(logger);
+    const resetAt = Math.floor(Date.now() / 1000) + 30;
+    const send = jest.fn(async () => ({
+      headers: {
+        "x-ratelimit-limit": "5000",
+        "x-ratelimit-remaining": "10",
+        "x-ratelimit-reset": String(resetAt),
+      },
+    }));
+
+    await limiter.schedule("GET /x", "core", send);
+    const next = limiter.schedule("GET /y", "core", send);
+    await jest.advanceTimersByTimeAsync(20 * 1000);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(15 * 1000);
+    await next;
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(warnings[0]).toContain("Only 10 GitHub core requests left");
+  });
+});
@@ -0,0 +1,224 @@
+import { Logger } from "./types";
+
+type Headers = Record<string, string | number | undefined>;
+
+// Shape of the errors Octokit throws for non-2xx responses
+export type OctokitError = {
+  status?: number;
+  message?: string;
+  response?: { headers: Headers };
+};
+
+export interface RateLimitStatus {
+  resource: string; // core, graphql, search, ...
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface RateLimiterOptions {
+  maxRetries: number;
+  // Pause until the reset once a resource has this many requests left
+  minRemaining: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Give up instead of waiting longer than this for a rate limit reset
+  maxResetWaitMs: number;
+}
+
+export const DEFAULT_RATE_LIMITER_OPTIONS: RateLimiterOptions = {
+  maxRetries: 4,
+  minRemaining: 50,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  maxResetWaitMs: 60 * 60 * 1000,
+};
+
+// GitHub asks clients to wait at least a minute after a secondary rate limit
+const SECONDARY_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+// Sits under every Octokit request: tracks the rate limit headers, pauses
+// when a budget runs low and retries rate limited and transient failures
+export class RateLimiter {
+  private logger: Logger;
+  private options: RateLimiterOptions;
+  private budgets = new Map<string, RateLimitStatus>();
+  private pauses = new Map<string, Promise<void>>();
+
+  constructor(
+    logger: Logger,
+    options: RateLimiterOptions = DEFAULT_RATE_LIMITER_OPTIONS
+  ) {
+    this.logger = logger;
+    this.options = options;
+  }
+
+  async schedule<T extends { headers: Headers }>(
+    label: string,
+    resource: string,
+    send: () => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBudget(resource);
+
+      try {
+        const response = await send();
+        this.recordHeaders(response.headers);
+        return response;
+      } catch (error) {
+        const headers = (error as OctokitError).response?.headers;
+        if (headers) {
+          this.recordHeaders(headers);
+        }
+
+        const waitMs = this.getRetryDelay(error as OctokitError, attempt);
+        if (waitMs === null) {
+          throw error;
+        }
+
+        this.logger.warn(
+          `${label} failed (${describeFailure(
+            error as OctokitError
+          )}), retrying in ${Math.ceil(waitMs / 1000)}s (attempt ${
+            attempt + 1
+          } of ${this.options.maxRetries})`
+        );
+        await sleep(waitMs);
+      }
+    }
+  }
+
+  getBudgets(): RateLimitStatus[] {
+    return [...this.budgets.values()].sort((a, b) =>
+      a.resource.localeCompare(b.resource)
+    );
+  }
+
+  formatBudgets(): string | null {
+    const budgets = this.getBudgets();
+    if (budgets.length === 0) {
+      return null;
+    }
+    return budgets
+      .map(
+        (budget) =>
+          `${budget.resource} ${budget.remaining}/${
+            budget.limit
+          } remaining (resets ${budget.resetAt.toLocaleTimeString()})`
+      )
+      .join(", ");
+  }
+
+  private recordHeaders(headers: Headers): void {
+    const limit = Number(headers["x-ratelimit-limit"]);
+    const remaining = Number(headers["x-ratelimit-remaining"]);
+    const reset = Number(headers["x-ratelimit-reset"]);
+    if (![limit, remaining, reset].every(Number.isFinite)) {
+      return;
+    }
+
+    const resource = String(headers["x-ratelimit-resource"] ?? "core");
+    this.budgets.set(resource, {
+      resource,
+      limit,
+      remaining,
+      resetAt: new Date(reset * 1000),
+    });
+  }
+
+  private async waitForBudget(resource: string): Promise<void> {
+    // Requests running in parallel wait for the same reset
+    const pause = this.pauses.get(resource);
+    if (pause) {
+      return pause;
+    }
+
+    const budget = this.budgets.get(resource);
+    if (!budget || budget.remaining > this.options.minRemaining) {
+      return;
+    }
+
+    const waitMs = budget.resetAt.getTime() - Date.now() + 1000;
+    if (waitMs <= 0) {
+      return;
+    }
+    if (waitMs > this.options.maxResetWaitMs) {
+      throw new Error(
+        `GitHub ${resource} rate limit is exhausted until ${budget.resetAt.toISOString()}`
+      );
+    }
+
+    this.logger.warn(
+      `Only ${
+        budget.remaining
+      } GitHub ${resource} requests left, pausing until ${budget.resetAt.toLocaleTimeString()}`
+    );
+    const reset = sleep(waitMs).then(() => {
+      this.pauses.delete(resource);
+      this.budgets.delete(resource);
+    });
+    this.pauses.set(resource, reset);
+    return reset;
+  }
+
+  // Milliseconds to wait before retrying, or null when the error is final
+  private getRetryDelay(error: OctokitError, attempt: number): number | null {
+    if (attempt >= this.options.maxRetries) {
+      return null;
+    }
+
+    const status = error.status;
+    const headers = error.response?.headers ?? {};
+
+    if (status === 403 || status === 429) {
+      const retryAfter = Number(headers["retry-after"]);
+      if (Number.isFinite(retryAfter) && retryAfter > 0) {
+        return retryAfter * 1000;
+      }
+
+      // Primary rate limit: the budget is used up until the reset
+      if (String(headers["x-ratelimit-remaining"]) === "0") {
+        const waitMs =
+          Number(headers["x-ratelimit-reset"]) * 1000 - Date.now() + 1000;
+        return waitMs > 0 && waitMs <= this.options.maxResetWaitMs
+          ? waitMs
+          : null;
+      }
+
+      // Secondary ("abuse") rate limit, other 403s are permission errors
+      if (
+        status === 429 ||
+        /secondary rate limit|abuse/i.test(error.message ?? "")
+      ) {
+        return Math.max(SECONDARY_RATE_LIMIT_WAIT_MS, this.backoff(attempt));
+      }
+      return null;
+    }
+
+    // Server errors and network failures (no status) are usually transient
+    if (status === undefined || status >= 500) {
+      return this.backoff(attempt);
+    }
+
+    return null;
+  }
+
+  // Exponential backoff with jitter, so parallel requests don't retry in step
+  private backoff(attempt: number): number {
+    const delay = Math.min(
+      this.options.maxDelayMs,
+      this.options.baseDelayMs * 2 ** attempt
+    );
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+}
+
+function describeFailure(error: OctokitError): string {
+  return error.status
+    ? `HTTP ${error.status}`
+    : error.message ?? "network error";
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
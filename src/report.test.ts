@@ -0,0 +1,42 @@
+import { createReport, formatReport, ReportEntry } from "./report";
+
+function entry(overrides: Partial<ReportEntry>): ReportEntry {
+  return {
+    threadId: "1",
+    title: "Bump lodash",
+    url: "https://github.com/org/repo/pull/1",
+    repository: "org/repo",
+    subjectType: "PullRequest",
+    reason: "review_requested",
+    updatedAt: "2024-01-01T00:00:00Z",
+    state: "merged",
+    decision: "done",
+    action: "done",
+    rule: "merged-closed-pr",
+    reasons: ["PR was merged"],
+    teams: [],
+    ...overrides,
+  };
+}
+
+describe("report summaries", () => {
+  const report = createReport({ runId: "run", user: "me", dryRun: false }, [
+    entry({ threadId: "1", action: "done" }),
+    entry({ threadId: "2", action: "mute" }),
+    entry({ threadId: "3", action: "done" }),
+    entry({ threadId: "4", decision: "keep", action: null }),
+  ]);
+
+  it("counts each action", () => {
+    expect(report.summary.actions).toEqual({ done: 2, mute: 1 });
+  });
+
+  it("describes what was done in the Markdown and table summaries", () => {
+    expect(formatReport(report, "markdown")).toContain(
+      "4 threads, 3 acted on (2 done, 1 mute), 1 kept."
+    );
+    expect(formatReport(report, "table")).toContain(
+      "4 threads, 3 acted on (2 done, 1 mute), 1 kept, 0 failed"
+    );
+  });
+});
@@ -0,0 +1,303 @@
+import * as fs from "fs-extra";
+import {
+  GitHubNotification,
+  SubjectDetails,
+  TeamPolicy,
+  ThreadAction,
+  ThreadDecision,
+} from "./types";
+
+export const REPORT_FORMATS = ["json", "markdown", "table"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface ReportEntry {
+  threadId: string;
+  title: string;
+  url: string;
+  repository: string;
+  subjectType: string;
+  reason: string;
+  updatedAt: string; // The thread's updated_at when it was evaluated
+  state: string | null; // PR/issue/discussion state when details were fetched
+  decision: ThreadDecision["action"] | "error";
+  action: ThreadAction | null; // What a "done" decision does with the thread
+  rule: string | null;
+  reasons: string[];
+  // The user's teams requested for review on a PR, as org/slug with policy
+  teams: Array<{ team: string; policy: TeamPolicy }>;
+}
+
+export interface ProcessingReport {
+  runId: string;
+  user: string;
+  dryRun: boolean;
+  generatedAt: string;
+  summary: {
+    total: number;
+    done: number; // Threads a rule acted on, whatever the action
+    kept: number;
+    errors: number;
+    actions: Partial<Record<ThreadAction, number>>;
+  };
+  entries: ReportEntry[];
+}
+
+export function describeSubjectState(details: SubjectDetails): string | null {
+  if (details.pullRequest) {
+    const pr = details.pullRequest;
+    return pr.merged ? "merged" : pr.draft ? "draft" : pr.state;
+  }
+  if (details.issue) {
+    return details.issue.state_reason === "not_planned"
+      ? "closed (not planned)"
+      : details.issue.state;
+  }
+  if (details.discussion) {
+    const discussion = details.discussion;
+    return discussion.closed
+      ? "closed"
+      : discussion.isAnswered
+      ? "answered"
+      : "open";
+  }
+  if (details.checkSuite) {
+    return details.checkSuite.conclusion;
+  }
+  if (details.release) {
+    return details.release.prerelease ? "prerelease" : "published";
+  }
+  return null;
+}
+
+export function createReportEntry(
+  notification: GitHubNotification,
+  url: string,
+  details: SubjectDetails,
+  decision: ThreadDecision,
+  teams: ReportEntry["teams"] = []
+): ReportEntry {
+  return {
+    threadId: notification.id,
+    title: notification.subject.title,
+    url,
+    repository: notification.repository.full_name,
+    subjectType: notification.subject.type,
+    reason: notification.reason,
+    updatedAt: notification.updated_at,
+    state: describeSubjectState(details),
+    decision: decision.action,
+    action: decision.threadAction,
+    rule: decision.rule,
+    reasons: decision.reasons,
+    teams,
+  };
+}
+
+export function createReport(
+  run: { runId: string; user: string; dryRun: boolean },
+  entries: ReportEntry[]
+): ProcessingReport {
+  const count = (decision: ReportEntry["decision"]) =>
+    entries.filter((entry) => entry.decision === decision).length;
+
+  const actions: Partial<Record<ThreadAction, number>> = {};
+  for (const entry of entries) {
+    if (entry.decision === "done" && entry.action) {
+      actions[entry.action] = (actions[entry.action] ?? 0) + 1;
+    }
+  }
+
+  return {
+    ...run,
+    generatedAt: new Date().toISOString(),
+    summary: {
+      total: entries.length,
+      done: count("done"),
+      kept: count("keep"),
+      errors: count("error"),
+      actions,
+    },
+    entries,
+  };
+}
+
+function decisionLabel(report: ProcessingReport, entry: ReportEntry): string {
+  if (entry.decision !== "done") {
+    return entry.decision;
+  }
+  const action = entry.action ?? "done";
+  return report.dryRun ? `${action} (dry run)` : action;
+}
+
+// e.g. "12 acted on (10 done, 2 mute)"
+function describeActions(report: ProcessingReport): string {
+  const { summary } = report;
+  const breakdown = Object.entries(summary.actions)
+    .map(([action, count]) => `${count} ${action}`)
+    .join(", ");
+  return `${summary.done} ${report.dryRun ? "would be acted on" : "acted on"}${
+    breakdown ? ` (${breakdown})` : ""
+  }`;
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function formatMarkdown(report: ProcessingReport): string {
+  const { summary } = report;
+  const lines = [
+    "## Notification Processing Summary",
+    "",
+    `Run \`${report.runId}\` for @${report.user}${
+      report.dryRun ? " (dry run)" : ""
+    }: ${summary.total} threads, ${describeActions(report)}, ${
+      summary.kept
+    } kept${summary.errors > 0 ? `, ${summary.errors} failed` : ""}.`,
+  ];
+
+  if (report.entries.length > 0) {
+    lines.push(
+      "",
+      "| Thread | Repository | Type | Reason | State | Decision | Rule |",
+      "| --- | --- | --- | --- | --- | --- | --- |"
+    );
+    for (const entry of report.entries) {
+      lines.push(
+        `| [${escapeMarkdown(entry.title)}](${entry.url}) | ${
+          entry.repository
+        } | ${entry.subjectType} | ${entry.reason} | ${
+          entry.state ?? ""
+        } | ${decisionLabel(report, entry)} | ${entry.rule ?? ""} |`
+      );
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+function formatTable(report: ProcessingReport): string {
+  const header = [
+    "Thread",
+    "Repository",
+    "Type",
+    "Reason",
+    "State",
+    "Decision",
+    "Rule",
+    "Title",
+  ];
+  const rows = report.entries.map((entry) => [
+    entry.threadId,
+    entry.repository,
+    entry.subjectType,
+    entry.reason,
+    entry.state ?? "-",
+    decisionLabel(report, entry),
+    entry.rule ?? "-",
+    truncate(entry.title, 60),
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join("  ")
+      .trimEnd();
+
+  const { summary } = report;
+  return [
+    formatRow(header),
+    formatRow(widths.map((width) => "-".repeat(width))),
+    ...rows.map(formatRow),
+    "",
+    `${summary.total} threads, ${describeActions(report)}, ${
+      summary.kept
+    } kept, ${summary.errors} failed`,
+    "",
+  ].join("\n");
+}
+
+export function formatReport(
+  report: ProcessingReport,
+  format: ReportFormat
+): string {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(report, null, 2)}\n`;
+    case "markdown":
+      return formatMarkdown(report);
+    case "table":
+      return formatTable(report);
+  }
+}
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+// How many kept threads each of the user's teams is requested on, to spot
+// teams that keep threads alive; a thread counts once per requested team
+export function formatTeamStats(report: ProcessingReport): string {
+  const stats = new Map<string, { policy: TeamPolicy; kept: number }>();
+  for (const entry of report.entries) {
+    if (entry.decision !== "keep") {
+      continue;
+    }
+    for (const { team, policy } of entry.teams) {
+      const stat = stats.get(team) ?? { policy, kept: 0 };
+      stat.kept++;
+      stats.set(team, stat);
+    }
+  }
+
+  if (stats.size === 0) {
+    return "No kept threads are review requests to your teams\n";
+  }
+
+  const rows = [...stats.entries()].sort(
+    ([teamA, a], [teamB, b]) => b.kept - a.kept || teamA.localeCompare(teamB)
+  );
+  const width = Math.max(4, ...rows.map(([team]) => team.length));
+  return [
+    `${"Team".padEnd(width)}  ${"Policy".padEnd(10)}  Kept threads`,
+    ...rows.map(
+      ([team, stat]) =>
+        `${team.padEnd(width)}  ${stat.policy.padEnd(10)}  ${stat.kept}`
+    ),
+    "",
+  ].join("\n");
+}
+
+// Writes the report to a file, or to stdout when no path is given
+export async function writeReport(
+  report: ProcessingReport,
+  format: ReportFormat,
+  outputPath?: string
+): Promise<void> {
+  const content = formatReport(report, format);
+  if (outputPath) {
+    await fs.writeFile(outputPath, content);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+// Appends the Markdown report to the GitHub Actions job summary when running
+// in Actions; returns whether a summary was written
+export async function appendStepSummary(
+  report: ProcessingReport
+): Promise<boolean> {
+  const summaryPath = process.env.GITHUB_STEP_SUMMARY;
+  if (!summaryPath) {
+    return false;
+  }
+  await fs.appendFile(summaryPath, formatReport(report, "markdown"));
+  return true;
+}
@@ -0,0 +1,146 @@
+import {
+  GitHubNotification,
+  NotificationFilter,
+  SubjectDetails,
+} from "./types";
+import { matchesAnyPattern } from "./patterns";
+
+export interface ConditionResult {
+  matched: boolean;
+  reasons: string[]; // Why the condition matched, or why it didn't
+}
+
+// A compiled "match" rule condition
+export type Condition = (
+  notification: GitHubNotification,
+  details: SubjectDetails
+) => ConditionResult;
+
+function result(matched: boolean, reason: string): ConditionResult {
+  return { matched, reasons: [reason] };
+}
+
+// Matches when every condition does; explains with the first one that doesn't
+export function allOf(conditions: Condition[]): Condition {
+  return (notification, details) => {
+    const reasons: string[] = [];
+    for (const condition of conditions) {
+      const outcome = condition(notification, details);
+      if (!outcome.matched) {
+        return outcome;
+      }
+      reasons.push(...outcome.reasons);
+    }
+    return { matched: true, reasons };
+  };
+}
+
+// Matches when any condition does; explains with the first one that does
+export function anyOf(conditions: Condition[]): Condition {
+  return (notification, details) => {
+    const reasons: string[] = [];
+    for (const condition of conditions) {
+      const outcome = condition(notification, details);
+      if (outcome.matched) {
+        return outcome;
+      }
+      reasons.push(...outcome.reasons);
+    }
+    return { matched: false, reasons };
+  };
+}
+
+export function not(condition: Condition): Condition {
+  return (notification, details) => {
+    const outcome = condition(notification, details);
+    return {
+      matched: !outcome.matched,
+      reasons: outcome.reasons.map((reason) => `not (${reason})`),
+    };
+  };
+}
+
+export function reasonIn(reasons: string[]): Condition {
+  return (notification) =>
+    result(
+      reasons.includes(notification.reason),
+      `Reason is ${notification.reason}`
+    );
+}
+
+// Repositories as "owner/name" globs or /regular expressions/
+export function repoMatches(patterns: string[]): Condition {
+  return (notification) => {
+    const repo = notification.repository.full_name;
+    return result(matchesAnyPattern(repo, patterns), `Repository is ${repo}`);
+  };
+}
+
+export function orgMatches(patterns: string[]): Condition {
+  return (notification) => {
+    const org = notification.repository.owner.login;
+    return result(matchesAnyPattern(org, patterns), `Organization is ${org}`);
+  };
+}
+
+export function subjectTypeIn(subjectTypes: string[]): Condition {
+  return (notification) => {
+    const subjectType = notification.subject.type;
+    return result(
+      subjectTypes.includes(subjectType),
+      `Subject type is ${subjectType}`
+    );
+  };
+}
+
+// Threads without updates for at least ageMs
+export function olderThan(ageMs: number, label: string): Condition {
+  return (notification) => {
+    const age = Date.now() - new Date(notification.updated_at).getTime();
+    return result(
+      age >= ageMs,
+      `Thread was ${age >= ageMs ? "" : "not "}updated more than ${label} ago`
+    );
+  };
+}
+
+// Matches when the filter has a verdict for the thread, so the built-in
+// rules can be combined with other conditions
+export function filterMatches(filter: NotificationFilter): Condition {
+  return (notification, details) => {
+    const verdict = filter.evaluate(notification, details);
+    return {
+      matched: verdict.action !== "none",
+      reasons: verdict.reasons.map((reason) => `${verdict.rule}: ${reason}`),
+    };
+  };
+}
+
+export interface RepoSelector {
+  repos?: string[];
+  orgs?: string[];
+}
+
+// Matches a thread whose repository or organization is listed
+function repoSelector(selector: RepoSelector): Condition {
+  return anyOf([
+    ...(selector.repos ? [repoMatches(selector.repos)] : []),
+    ...(selector.orgs ? [orgMatches(selector.orgs)] : []),
+  ]);
+}
+
+// The threads a run looks at: those in an included repository or
+// organization (all when nothing is included) and not in an excluded one
+export function repoScope(scope: {
+  include?: RepoSelector;
+  exclude?: RepoSelector;
+}): Condition {
+  const conditions: Condition[] = [];
+  if (scope.include) {
+    conditions.push(repoSelector(scope.include));
+  }
+  if (scope.exclude) {
+    conditions.push(not(repoSelector(scope.exclude)));
+  }
+  return allOf(conditions);
+}
@@ -0,0 +1,52 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { DoneThreadRecord, RunHistory } from "./run-history";
+import { Logger } from "./types";
+
+const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
+
+function record(runId: string, threadId: string): DoneThreadRecord {
+  return {
+    runId,
+    threadId,
+    title: "Bump lodash",
+    url: "https://github.com/org/repo/pull/1",
+    repository: "org/repo",
+    subjectType: "PullRequest",
+    rule: "merged-closed-pr",
+    action: "done",
+    markedAt: "2024-01-01T00:00:00.000Z",
+  };
+}
+
+describe("RunHistory", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "runs-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("skips a truncated line instead of failing the whole range", async () => {
+    const history = new RunHistory(logger, dir);
+    await history.recordDoneThread(record("2024-01-01T00-00-00-000Z", "1"));
+    await history.recordDoneThread(record("2024-01-02T00-00-00-000Z", "2"));
+    await fs.appendFile(
+      path.join(dir, "2024-01-02T00-00-00-000Z.jsonl"),
+      '{"runId":"2024-01-02T00-00-00-000Z","threadId":"3","ti'
+    );
+
+    const threads = await history.findThreads({});
+
+    expect(threads.map((thread) => thread.threadId)).toEqual(["1", "2"]);
+  });
+});
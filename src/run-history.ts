@@ -0,0 +1,122 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { Logger, ThreadAction } from "./types";
+
+export const DEFAULT_RUN_HISTORY_DIR = ".gh-notifications/runs";
+
+// Sortable, filesystem-friendly identifier for one processing run
+export function createRunId(): string {
+  return new Date().toISOString().replace(/[:.]/g, "-");
+}
+
+// A thread that a run actually marked as done, unsubscribed from or muted
+export interface DoneThreadRecord {
+  runId: string;
+  threadId: string;
+  title: string;
+  url: string; // Browser URL of the subject
+  repository: string;
+  subjectType: string;
+  rule: string | null;
+  action?: ThreadAction; // Missing in records written before rule actions
+  markedAt: string;
+}
+
+export interface RunHistoryQuery {
+  runId?: string; // "latest" selects the most recent run
+  since?: Date;
+  threadId?: string;
+}
+
+// Keeps one JSONL file per run so threads are recorded as soon as they are
+// marked done, even if the run is interrupted halfway through
+export class RunHistory {
+  private historyDir: string;
+  private logger: Logger;
+
+  constructor(logger: Logger, historyDir: string = DEFAULT_RUN_HISTORY_DIR) {
+    this.historyDir = historyDir;
+    this.logger = logger;
+  }
+
+  private getRunFilePath(runId: string): string {
+    return path.join(this.historyDir, `${runId}.jsonl`);
+  }
+
+  async recordDoneThread(record: DoneThreadRecord): Promise<void> {
+    try {
+      await fs.ensureDir(this.historyDir);
+      await fs.appendFile(
+        this.getRunFilePath(record.runId),
+        `${JSON.stringify(record)}\n`
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record thread ${record.threadId} in run history:`,
+        error
+      );
+      // Don't throw - the thread is already marked done
+    }
+  }
+
+  async listRuns(): Promise<string[]> {
+    if (!(await fs.pathExists(this.historyDir))) {
+      return [];
+    }
+
+    const files = await fs.readdir(this.historyDir);
+    // Run IDs are ISO timestamps, so sorting by name sorts by time
+    return files
+      .filter((file) => file.endsWith(".jsonl"))
+      .map((file) => path.basename(file, ".jsonl"))
+      .sort();
+  }
+
+  async getRun(runId: string): Promise<DoneThreadRecord[]> {
+    const filePath = this.getRunFilePath(runId);
+    if (!(await fs.pathExists(filePath))) {
+      return [];
+    }
+
+    // A run killed while writing can leave a truncated last line
+    const content = await fs.readFile(filePath, "utf8");
+    const records: DoneThreadRecord[] = [];
+    content.split("\n").forEach((line, index) => {
+      if (line.trim() === "") {
+        return;
+      }
+      try {
+        records.push(JSON.parse(line) as DoneThreadRecord);
+      } catch (error) {
+        this.logger.warn(
+          `Skipping malformed run history line ${index + 1} in ${filePath}`
+        );
+      }
+    });
+    return records;
+  }
+
+  async findThreads(query: RunHistoryQuery): Promise<DoneThreadRecord[]> {
+    let runIds = await this.listRuns();
+
+    if (query.runId === "latest") {
+      runIds = runIds.slice(-1);
+    } else if (query.runId) {
+      if (!runIds.includes(query.runId)) {
+        throw new Error(`Run ${query.runId} not found in ${this.historyDir}`);
+      }
+      runIds = [query.runId];
+    }
+
+    const records: DoneThreadRecord[] = [];
+    for (const runId of runIds) {
+      records.push(...(await this.getRun(runId)));
+    }
+
+    return records.filter(
+      (record) =>
+        (!query.since || new Date(record.markedAt) >= query.since) &&
+        (!query.threadId || record.threadId === query.threadId)
+    );
+  }
+}
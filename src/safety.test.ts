@@ -0,0 +1,29 @@
+import { checkActionLimits, DEFAULT_SAFETY_OPTIONS } from "./safety";
+
+describe("checkActionLimits", () => {
+  it("allows every run without limits", () => {
+    expect(checkActionLimits(500, 500, DEFAULT_SAFETY_OPTIONS)).toBeNull();
+  });
+
+  it("stops runs with more actions than the limit", () => {
+    const options = { ...DEFAULT_SAFETY_OPTIONS, maxActions: 50 };
+
+    expect(checkActionLimits(50, 200, options)).toBeNull();
+    expect(checkActionLimits(51, 200, options)).toContain(
+      "more than the limit of 50"
+    );
+  });
+
+  it("stops runs acting on too large a share of the threads", () => {
+    const options = { ...DEFAULT_SAFETY_OPTIONS, maxActionsPercent: 25 };
+
+    expect(checkActionLimits(20, 100, options)).toBeNull();
+    expect(checkActionLimits(30, 100, options)).toContain("(30%)");
+  });
+
+  it("ignores the percentage for a handful of actions", () => {
+    const options = { ...DEFAULT_SAFETY_OPTIONS, maxActionsPercent: 25 };
+
+    expect(checkActionLimits(3, 3, options)).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import * as readline from "readline";
+
+export interface SafetyOptions {
+  // Stop before acting when a run would act on more threads than this
+  maxActions: number | null;
+  // ... or on more than this percentage of the threads it looked at
+  maxActionsPercent: number | null;
+  // Stop when the user's teams can't be loaded instead of running without
+  // them, which would treat every team review request as noise
+  requireTeams: boolean;
+}
+
+export const DEFAULT_SAFETY_OPTIONS: SafetyOptions = {
+  maxActions: null,
+  maxActionsPercent: null,
+  requireTeams: false,
+};
+
+// Below this many actions the percentage limit doesn't apply, so runs over
+// a handful of threads aren't stopped for acting on most of them
+export const MIN_ACTIONS_FOR_PERCENT_LIMIT = 10;
+
+// Raised when a run stops before acting to protect the inbox
+export class SafetyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SafetyError";
+  }
+}
+
+// Raised when the planned actions exceed the limits and nobody confirmed
+// them. Unlike failing to load teams, running again won't change that.
+export class ActionLimitError extends SafetyError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ActionLimitError";
+  }
+}
+
+// Describes which limit the planned actions exceed, or null when within them
+export function checkActionLimits(
+  actions: number,
+  threads: number,
+  options: SafetyOptions
+): string | null {
+  if (options.maxActions !== null && actions > options.maxActions) {
+    return `${actions} threads would be acted on, more than the limit of ${options.maxActions}`;
+  }
+
+  if (
+    options.maxActionsPercent !== null &&
+    actions >= MIN_ACTIONS_FOR_PERCENT_LIMIT &&
+    (actions / threads) * 100 > options.maxActionsPercent
+  ) {
+    return `${actions} of ${threads} threads (${Math.round(
+      (actions / threads) * 100
+    )}%) would be acted on, more than the limit of ${
+      options.maxActionsPercent
+    }%`;
+  }
+
+  return null;
+}
+
+// Asks a yes/no question on the terminal; anything but "y" or "yes" is no
+export async function confirmInTerminal(question: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+  try {
+    const answer = await new Promise<string>((resolve) =>
+      rl.question(`${question} [y/N] `, resolve)
+    );
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
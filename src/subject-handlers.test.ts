@@ -0,0 +1,246 @@
+import { GitHubClient } from "./github-client";
+import { CheckSuiteHandler, PullRequestHandler } from "./subject-handlers";
+import { GitHubNotification, Logger } from "./types";
+
+const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
+
+type Route = { status: number; body: unknown };
+
+// Answers GitHub API requests by path, 404 for anything not listed
+function mockGitHub(routes: Record<string, Route>) {
+  return jest.spyOn(global, "fetch").mockImplementation(async (input) => {
+    const url = new URL(
+      typeof input === "string" || input instanceof URL ? input : input.url
+    );
+    const route = routes[url.pathname] ?? {
+      status: 404,
+      body: { message: "Not Found" },
+    };
+    return new Response(JSON.stringify(route.body), {
+      status: route.status,
+      headers: { "content-type": "application/json" },
+    });
+  });
+}
+
+const ok = (body: unknown): Route => ({ status: 200, body });
+
+function thread(
+  type: string,
+  title: string,
+  url: string | null = null
+): GitHubNotification {
+  return {
+    id: "1",
+    unread: true,
+    reason: "ci_activity",
+    updated_at: "2024-01-01T00:00:00Z",
+    last_read_at: null,
+    subject: { title, url, latest_comment_url: null, type },
+    repository: {
+      id: 1,
+      name: "app",
+      full_name: "org-a/app",
+      owner: { login: "org-a", id: 1 },
+    },
+    url: "https://api.github.com/notifications/threads/1",
+    subscription_url:
+      "https://api.github.com/notifications/threads/1/subscription",
+  };
+}
+
+function workflowRun(
+  id: number,
+  name: string,
+  status: string,
+  conclusion: string | null
+) {
+  return {
+    id,
+    name,
+    head_branch: "feature/login form",
+    status,
+    conclusion,
+    created_at: "2024-01-02T00:00:00Z",
+    updated_at: "2024-01-02T00:00:00Z",
+  };
+}
+
+describe("CheckSuiteHandler", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("parses the workflow and branch from the title", async () => {
+    const fetchMock = mockGitHub({
+      "/repos/org-a/app/actions/runs": ok({
+        total_count: 3,
+        workflow_runs: [
+          workflowRun(3, "Lint", "completed", "success"),
+          workflowRun(2, "Build and test", "in_progress", null),
+          workflowRun(1, "Build and test", "completed", "success"),
+        ],
+      }),
+    });
+    const handler = new CheckSuiteHandler(
+      new GitHubClient("token", logger),
+      logger
+    );
+
+    const details = await handler.fetchDetails(
+      thread(
+        "CheckSuite",
+        "Build and test workflow run failed for feature/login form branch"
+      )
+    );
+
+    expect(details.checkSuite).toMatchObject({
+      workflowName: "Build and test",
+      branch: "feature/login form",
+      conclusion: "failed",
+      latestRun: { id: 1 },
+    });
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(url.searchParams.get("branch")).toBe("feature/login form");
+  });
+
+  it("has no latest run when none of the workflow completed", async () => {
+    mockGitHub({
+      "/repos/org-a/app/actions/runs": ok({
+        total_count: 1,
+        workflow_runs: [workflowRun(2, "CI", "queued", null)],
+      }),
+    });
+    const handler = new CheckSuiteHandler(
+      new GitHubClient("token", logger),
+      logger
+    );
+
+    const details = await handler.fetchDetails(
+      thread("CheckSuite", "CI workflow run cancelled for main branch")
+    );
+
+    expect(details.checkSuite?.latestRun).toBeNull();
+  });
+
+  it("returns no details for a title it can't parse", async () => {
+    const fetchMock = mockGitHub({});
+    const handler = new CheckSuiteHandler(
+      new GitHubClient("token", logger),
+      logger
+    );
+
+    const details = await handler.fetchDetails(
+      thread("CheckSuite", "Some other check suite message")
+    );
+
+    expect(details).toEqual({});
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("PullRequestHandler with GraphQL enrichment", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const pullRequestThread = (pullNumber: number) =>
+    thread(
+      "PullRequest",
+      `Pull request ${pullNumber}`,
+      `https://api.github.com/repos/org-a/app/pulls/${pullNumber}`
+    );
+
+  function graphqlPullRequest(pullNumber: number) {
+    return {
+      databaseId: pullNumber,
+      number: pullNumber,
+      state: "OPEN",
+      isDraft: false,
+      merged: false,
+      mergedAt: null,
+      closedAt: null,
+      updatedAt: "2024-01-01T00:00:00Z",
+      headRefOid: "head-sha",
+      author: { __typename: "User", login: "someone-else", databaseId: 2 },
+      reviewRequests: { nodes: [] },
+      assignees: { nodes: [] },
+      repository: { owner: { login: "org-a" } },
+    };
+  }
+
+  function restPullRequest(pullNumber: number) {
+    return {
+      id: pullNumber,
+      number: pullNumber,
+      state: "closed",
+      merged: true,
+      merged_at: "2024-01-02T00:00:00Z",
+      closed_at: "2024-01-02T00:00:00Z",
+      updated_at: "2024-01-02T00:00:00Z",
+      head: { sha: "head-sha" },
+      user: { type: "User", login: "someone-else", id: 2 },
+      requested_reviewers: [],
+      requested_teams: [],
+      assignees: [],
+      base: { repo: { owner: { login: "org-a" } } },
+    };
+  }
+
+  it("fetches the PRs GraphQL couldn't resolve with REST", async () => {
+    const fetchMock = mockGitHub({
+      "/graphql": ok({
+        data: {
+          pr0: { pullRequest: graphqlPullRequest(1) },
+          pr1: { pullRequest: null },
+        },
+        errors: [
+          {
+            type: "NOT_FOUND",
+            path: ["pr1", "pullRequest"],
+            message: "Could not resolve to a PullRequest with the number of 2.",
+          },
+        ],
+      }),
+      "/repos/org-a/app/pulls/2": ok(restPullRequest(2)),
+    });
+    const handler = new PullRequestHandler(
+      new GitHubClient("token", logger),
+      logger,
+      "graphql"
+    );
+
+    await handler.prefetch([pullRequestThread(1), pullRequestThread(2)]);
+    const first = await handler.fetchDetails(pullRequestThread(1));
+    const second = await handler.fetchDetails(pullRequestThread(2));
+
+    expect(first.pullRequest?.state).toBe("open");
+    expect(second.pullRequest?.merged).toBe(true);
+    const paths = fetchMock.mock.calls.map(
+      ([input]) => new URL(String(input)).pathname
+    );
+    expect(paths).toEqual(["/graphql", "/repos/org-a/app/pulls/2"]);
+  });
+
+  it("falls back to REST for every PR when the query fails", async () => {
+    mockGitHub({
+      "/graphql": { status: 400, body: { message: "Problems parsing JSON" } },
+      "/repos/org-a/app/pulls/1": ok(restPullRequest(1)),
+    });
+    const handler = new PullRequestHandler(
+      new GitHubClient("token", logger),
+      logger,
+      "graphql"
+    );
+
+    await handler.prefetch([pullRequestThread(1)]);
+    const details = await handler.fetchDetails(pullRequestThread(1));
+
+    expect(details.pullRequest?.merged).toBe(true);
+  });
+});
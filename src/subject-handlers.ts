@@ -0,0 +1,333 @@
+import type { RuleConfig } from "./config";
+import { GitHubClient } from "./github-client";
+import {
+  GitHubNotification,
+  Logger,
+  PullRequestDetails,
+  SubjectDetails,
+} from "./types";
+
+// How pull request details are fetched: one REST call per PR, or batched
+// GraphQL queries
+export type EnrichmentBackend = "rest" | "graphql";
+
+// Fetches the details for one notification subject type and supplies the
+// rules that apply to that type when the config doesn't list its own
+export interface SubjectTypeHandler {
+  readonly subjectType: string;
+  readonly defaultRules: RuleConfig[];
+  // Optionally loads details for every thread of this type up front, so
+  // fetchDetails can answer without a request per thread
+  prefetch?(notifications: GitHubNotification[]): Promise<void>;
+  fetchDetails(notification: GitHubNotification): Promise<SubjectDetails>;
+}
+
+export class PullRequestHandler implements SubjectTypeHandler {
+  readonly subjectType = "PullRequest";
+  readonly defaultRules: RuleConfig[] = [
+    { type: "merged-closed-pr", enabled: true },
+    {
+      type: "bot-author-pr",
+      enabled: true,
+      teamReviewRequestsCountAsInvolvement: false,
+    },
+  ];
+
+  private githubClient: GitHubClient;
+  private logger: Logger;
+  private enrichment: EnrichmentBackend;
+  private fetchReviews: boolean;
+  private prefetched = new Map<string, PullRequestDetails>(); // subject URL -> details
+
+  constructor(
+    githubClient: GitHubClient,
+    logger: Logger,
+    enrichment: EnrichmentBackend = "rest",
+    fetchReviews: boolean = false
+  ) {
+    this.githubClient = githubClient;
+    this.logger = logger;
+    this.enrichment = enrichment;
+    this.fetchReviews = fetchReviews;
+  }
+
+  async prefetch(notifications: GitHubNotification[]): Promise<void> {
+    this.prefetched.clear();
+    if (this.enrichment !== "graphql") {
+      return;
+    }
+
+    const refs = new Map<
+      string,
+      { owner: string; repo: string; pullNumber: number }
+    >();
+    for (const notification of notifications) {
+      const url = notification.subject.url;
+      const prInfo = url ? this.githubClient.extractPullRequestInfo(url) : null;
+      if (url && prInfo) {
+        refs.set(url, prInfo);
+      }
+    }
+    if (refs.size === 0) {
+      return;
+    }
+
+    try {
+      const details = await this.githubClient.getPullRequestDetailsBatch([
+        ...refs.values(),
+      ]);
+      [...refs.keys()].forEach((url, index) => {
+        const pullRequest = details[index];
+        if (pullRequest) {
+          this.prefetched.set(url, pullRequest);
+        }
+      });
+      this.logger.debug(
+        `Prefetched ${this.prefetched.size} of ${refs.size} PRs with GraphQL`
+      );
+    } catch (error) {
+      this.logger.warn(
+        "GraphQL enrichment failed, falling back to REST for PR details:",
+        error
+      );
+    }
+  }
+
+  async fetchDetails(
+    notification: GitHubNotification
+  ): Promise<SubjectDetails> {
+    const url = notification.subject.url;
+    const prInfo = url ? this.githubClient.extractPullRequestInfo(url) : null;
+    if (!url || !prInfo) {
+      return {};
+    }
+
+    // PRs GraphQL couldn't resolve are fetched with REST
+    const pullRequest =
+      this.prefetched.get(url) ??
+      (await this.githubClient.getPullRequestDetails(
+        prInfo.owner,
+        prInfo.repo,
+        prInfo.pullNumber
+      ));
+
+    // Reviews only matter while the PR is open
+    if (!this.fetchReviews || pullRequest.state !== "open") {
+      return { pullRequest };
+    }
+    const pullRequestReviews = await this.githubClient.getPullRequestReviews(
+      prInfo.owner,
+      prInfo.repo,
+      prInfo.pullNumber
+    );
+    return { pullRequest, pullRequestReviews };
+  }
+}
+
+export class IssueHandler implements SubjectTypeHandler {
+  readonly subjectType = "Issue";
+  readonly defaultRules: RuleConfig[] = [
+    { type: "closed-issue", enabled: true },
+  ];
+
+  private githubClient: GitHubClient;
+
+  constructor(githubClient: GitHubClient) {
+    this.githubClient = githubClient;
+  }
+
+  async fetchDetails(
+    notification: GitHubNotification
+  ): Promise<SubjectDetails> {
+    const issueInfo = notification.subject.url
+      ? this.githubClient.extractIssueInfo(notification.subject.url)
+      : null;
+    if (!issueInfo) {
+      return {};
+    }
+
+    const issue = await this.githubClient.getIssueDetails(
+      issueInfo.owner,
+      issueInfo.repo,
+      issueInfo.issueNumber
+    );
+    return { issue };
+  }
+}
+
+export class ReleaseHandler implements SubjectTypeHandler {
+  readonly subjectType = "Release";
+  readonly defaultRules: RuleConfig[] = [
+    { type: "release", enabled: true, watchReleasesOnlyFor: [] },
+  ];
+
+  private githubClient: GitHubClient;
+
+  constructor(githubClient: GitHubClient) {
+    this.githubClient = githubClient;
+  }
+
+  async fetchDetails(
+    notification: GitHubNotification
+  ): Promise<SubjectDetails> {
+    const releaseInfo = notification.subject.url
+      ? this.githubClient.extractReleaseInfo(notification.subject.url)
+      : null;
+    if (!releaseInfo) {
+      return {};
+    }
+
+    const release = await this.githubClient.getReleaseDetails(
+      releaseInfo.owner,
+      releaseInfo.repo,
+      releaseInfo.releaseId
+    );
+    return { release };
+  }
+}
+
+export class DiscussionHandler implements SubjectTypeHandler {
+  readonly subjectType = "Discussion";
+  readonly defaultRules: RuleConfig[] = [
+    { type: "closed-discussion", enabled: true },
+  ];
+
+  private githubClient: GitHubClient;
+
+  constructor(githubClient: GitHubClient) {
+    this.githubClient = githubClient;
+  }
+
+  async fetchDetails(
+    notification: GitHubNotification
+  ): Promise<SubjectDetails> {
+    const discussionInfo = notification.subject.url
+      ? this.githubClient.extractDiscussionInfo(notification.subject.url)
+      : null;
+    if (!discussionInfo) {
+      return {};
+    }
+
+    const discussion = await this.githubClient.getDiscussionDetails(
+      discussionInfo.owner,
+      discussionInfo.repo,
+      discussionInfo.discussionNumber
+    );
+    return { discussion };
+  }
+}
+
+export class CheckSuiteHandler implements SubjectTypeHandler {
+  readonly subjectType = "CheckSuite";
+  readonly defaultRules: RuleConfig[] = [
+    { type: "superseded-check-suite", enabled: true },
+  ];
+
+  private githubClient: GitHubClient;
+  private logger: Logger;
+
+  constructor(githubClient: GitHubClient, logger: Logger) {
+    this.githubClient = githubClient;
+    this.logger = logger;
+  }
+
+  async fetchDetails(
+    notification: GitHubNotification
+  ): Promise<SubjectDetails> {
+    // Format: "<workflow> workflow run <conclusion> for <branch> branch"
+    const match = notification.subject.title.match(
+      /^(.+) workflow run (\w+) for (.+) branch$/
+    );
+    if (!match) {
+      this.logger.debug(
+        `Could not parse check suite title for thread ${notification.id}: ${notification.subject.title}`
+      );
+      return {};
+    }
+
+    const [, workflowName, conclusion, branch] = match;
+    const runs = await this.githubClient.getWorkflowRunsForBranch(
+      notification.repository.owner.login,
+      notification.repository.name,
+      branch
+    );
+    const latestRun =
+      runs.find(
+        (run) => run.name === workflowName && run.status === "completed"
+      ) ?? null;
+
+    return { checkSuite: { workflowName, branch, conclusion, latestRun } };
+  }
+}
+
+// Subject types we know about but have no details or rules for yet. They
+// are registered so the registry covers every type GitHub sends.
+export class NoDetailsHandler implements SubjectTypeHandler {
+  readonly subjectType: string;
+  readonly defaultRules: RuleConfig[] = [];
+
+  constructor(subjectType: string) {
+    this.subjectType = subjectType;
+  }
+
+  async fetchDetails(): Promise<SubjectDetails> {
+    return {};
+  }
+}
+
+// Default rules for threads of every subject type, evaluated first
+const GENERIC_DEFAULT_RULES: RuleConfig[] = [
+  // Being @-mentioned overrides every other rule
+  { type: "reason", enabled: true, reasons: ["mention"], action: "keep" },
+];
+
+export class SubjectHandlerRegistry {
+  private handlers = new Map<string, SubjectTypeHandler>();
+
+  register(handler: SubjectTypeHandler): this {
+    this.handlers.set(handler.subjectType, handler);
+    return this;
+  }
+
+  get(subjectType: string): SubjectTypeHandler | undefined {
+    return this.handlers.get(subjectType);
+  }
+
+  // Gives every handler the threads of its type before details are fetched
+  async prefetch(notifications: GitHubNotification[]): Promise<void> {
+    for (const handler of this.handlers.values()) {
+      await handler.prefetch?.(
+        notifications.filter(
+          (notification) => notification.subject.type === handler.subjectType
+        )
+      );
+    }
+  }
+
+  getDefaultRules(): RuleConfig[] {
+    return [
+      ...GENERIC_DEFAULT_RULES,
+      ...Array.from(this.handlers.values()).flatMap(
+        (handler) => handler.defaultRules
+      ),
+    ];
+  }
+}
+
+export function createDefaultHandlerRegistry(
+  githubClient: GitHubClient,
+  logger: Logger,
+  enrichment: EnrichmentBackend = "rest",
+  fetchReviews: boolean = false
+): SubjectHandlerRegistry {
+  return new SubjectHandlerRegistry()
+    .register(
+      new PullRequestHandler(githubClient, logger, enrichment, fetchReviews)
+    )
+    .register(new IssueHandler(githubClient))
+    .register(new ReleaseHandler(githubClient))
+    .register(new DiscussionHandler(githubClient))
+    .register(new CheckSuiteHandler(githubClient, logger))
+    .register(new NoDetailsHandler("Commit"))
+    .register(new NoDetailsHandler("RepositoryVulnerabilityAlert"));
+}
@@ -0,0 +1,32 @@
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Parses durations such as "30m", "12h", "1d" or "2w" into milliseconds
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([mhdw])$/i);
+  if (!match) {
+    throw new Error(
+      `Invalid duration "${value}", expected a number followed by m, h, d or w (e.g. "12h")`
+    );
+  }
+  return parseFloat(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+// Accepts either a duration ("2d" means two days ago) or a date
+export function parseSince(value: string, now: Date = new Date()): Date {
+  if (/^\d+(?:\.\d+)?\s*[mhdw]$/i.test(value.trim())) {
+    return new Date(now.getTime() - parseDuration(value));
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid date "${value}", expected a duration like "2d" or a date like "2024-01-31"`
+    );
+  }
+  return date;
+}
@@ -0,0 +1,267 @@
+import * as readline from "readline";
+import { appendRuleToConfig, RuleConfig } from "./config";
+import { openInBrowser } from "./browser";
+import { NotificationProcessor } from "./notification-processor";
+import { createRunId } from "./run-history";
+import { EvaluatedThread, Logger, TriageAction } from "./types";
+
+const KEY_HELP =
+  "[d]one  [r]ead  [u]nsubscribe  [o]pen  [a]lways done  [n]ext  [q]uit";
+
+function groupKey(thread: EvaluatedThread): string {
+  const { notification } = thread;
+  return `${notification.repository.full_name} · ${notification.reason}`;
+}
+
+function describeThread(
+  thread: EvaluatedThread,
+  position: string,
+  url: string
+): string {
+  const { notification, details, decision } = thread;
+  const lines = [
+    "",
+    `${position} ${groupKey(thread)}`,
+    `  ${notification.subject.type}: ${notification.subject.title}`,
+  ];
+
+  const pr = details.pullRequest;
+  if (pr) {
+    const state = pr.merged ? "merged" : pr.draft ? "draft" : pr.state;
+    lines.push(`  State: ${state} · author: ${pr.user.login}`);
+
+    const reviewRequests = [
+      ...pr.requested_reviewers.map((reviewer) => `@${reviewer.login}`),
+      ...pr.requested_teams.map(
+        (team) => `team ${pr.base.repo.owner.login}/${team.slug}`
+      ),
+    ];
+    lines.push(
+      `  Review requests: ${
+        reviewRequests.length > 0 ? reviewRequests.join(", ") : "none"
+      }`
+    );
+  }
+
+  const issue = details.issue;
+  if (issue) {
+    lines.push(`  State: ${issue.state} · author: ${issue.user.login}`);
+  }
+
+  lines.push(`  Kept because: ${decision.reasons.join("; ")}`);
+  lines.push(`  ${url}`);
+  lines.push(`  ${KEY_HELP}`);
+  return lines.join("\n");
+}
+
+function readKey(): Promise<string> {
+  return new Promise((resolve) => {
+    const onKeypress = (input: string | undefined, key?: readline.Key) => {
+      process.stdin.off("keypress", onKeypress);
+      if (key?.ctrl && key.name === "c") {
+        resolve("q");
+      } else {
+        resolve((key?.name ?? input ?? "").toLowerCase());
+      }
+    };
+    process.stdin.on("keypress", onKeypress);
+  });
+}
+
+export class TriageSession {
+  private processor: NotificationProcessor;
+  private logger: Logger;
+  private configSource: string | null;
+  private runId = createRunId();
+  private recorded = 0; // Threads in the run history under runId
+
+  constructor(
+    processor: NotificationProcessor,
+    logger: Logger,
+    configSource: string | null
+  ) {
+    this.processor = processor;
+    this.logger = logger;
+    this.configSource = configSource;
+  }
+
+  async run(): Promise<void> {
+    if (!process.stdin.isTTY) {
+      throw new Error("The triage command needs an interactive terminal");
+    }
+
+    console.log("Evaluating threads...");
+    const threads = await this.processor.getKeptThreads();
+    if (threads.length === 0) {
+      console.log("Nothing to triage, every thread is handled by a rule");
+      return;
+    }
+
+    // Walk the threads grouped by repository and reason
+    threads.sort((a, b) => groupKey(a).localeCompare(groupKey(b)));
+    this.printOverview(threads);
+
+    readline.emitKeypressEvents(process.stdin);
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+
+    try {
+      await this.triageThreads(threads);
+    } finally {
+      process.stdin.setRawMode(false);
+      process.stdin.pause();
+    }
+  }
+
+  private printOverview(threads: EvaluatedThread[]): void {
+    const counts = new Map<string, number>();
+    for (const thread of threads) {
+      counts.set(groupKey(thread), (counts.get(groupKey(thread)) ?? 0) + 1);
+    }
+
+    console.log(`\n${threads.length} threads kept by the rules:`);
+    for (const [group, count] of counts) {
+      console.log(`  ${count.toString().padStart(4)}  ${group}`);
+    }
+  }
+
+  private async triageThreads(threads: EvaluatedThread[]): Promise<void> {
+    const handled = new Set<string>();
+
+    for (let index = 0; index < threads.length; index++) {
+      const thread = threads[index];
+      if (handled.has(thread.notification.id)) {
+        continue;
+      }
+
+      const url = this.processor.getHtmlUrl(thread.notification);
+      console.log(
+        describeThread(thread, `[${index + 1}/${threads.length}]`, url)
+      );
+
+      let next = false;
+      while (!next) {
+        const key = await readKey();
+        next = true;
+
+        try {
+          switch (key) {
+            case "d":
+              await this.apply(thread, "done");
+              break;
+            case "r":
+              await this.apply(thread, "read");
+              break;
+            case "u":
+              await this.apply(thread, "unsubscribe");
+              break;
+            case "o":
+              openInBrowser(url);
+              next = false; // Opening doesn't decide anything yet
+              break;
+            case "a":
+              for (const done of await this.alwaysMarkDone(
+                thread,
+                threads.slice(index + 1)
+              )) {
+                handled.add(done.notification.id);
+              }
+              break;
+            case "n":
+            case "space":
+            case "return":
+              break;
+            case "q":
+              console.log("Quitting triage");
+              this.printRunId();
+              return;
+            default:
+              next = false;
+          }
+        } catch (error) {
+          this.logger.error(
+            `Action failed for thread ${thread.notification.id}:`,
+            error
+          );
+        }
+      }
+    }
+
+    console.log("\nTriage complete");
+    this.printRunId();
+  }
+
+  private printRunId(): void {
+    if (this.recorded > 0) {
+      console.log(`Run ID: ${this.runId} (use it with the undo command)`);
+    }
+  }
+
+  private async apply(
+    thread: EvaluatedThread,
+    action: TriageAction,
+    rule = "triage"
+  ): Promise<void> {
+    await this.processor.applyTriageAction(
+      thread.notification,
+      action,
+      this.runId,
+      rule
+    );
+    if (action !== "read") {
+      this.recorded++;
+    }
+  }
+
+  private isSameKind(a: EvaluatedThread, b: EvaluatedThread): boolean {
+    return (
+      a.notification.repository.full_name ===
+        b.notification.repository.full_name &&
+      a.notification.reason === b.notification.reason &&
+      a.notification.subject.type === b.notification.subject.type
+    );
+  }
+
+  // Writes a rule that marks threads like this one as done in future runs and
+  // applies it to the matching threads still waiting in this session. Returns
+  // the threads it was applied to; the others stay up for triage.
+  private async alwaysMarkDone(
+    thread: EvaluatedThread,
+    remaining: EvaluatedThread[]
+  ): Promise<EvaluatedThread[]> {
+    const { notification } = thread;
+    const rule: RuleConfig = {
+      type: "any-thread",
+      name: `triage: ${notification.repository.full_name} ${notification.reason} ${notification.subject.type}`,
+      enabled: true,
+      repos: [notification.repository.full_name],
+      reasons: [notification.reason],
+      subjectTypes: [notification.subject.type],
+    };
+
+    this.configSource = await appendRuleToConfig(
+      this.configSource,
+      rule,
+      this.processor.getRules()
+    );
+    console.log(`Added rule "${rule.name}" to ${this.configSource}`);
+
+    const matching = [
+      thread,
+      ...remaining.filter((other) => this.isSameKind(thread, other)),
+    ];
+    const applied: EvaluatedThread[] = [];
+    for (const other of matching) {
+      try {
+        await this.apply(other, "done", rule.name);
+        applied.push(other);
+      } catch (error) {
+        this.logger.error(
+          `Action failed for thread ${other.notification.id}:`,
+          error
+        );
+      }
+    }
+    return applied;
+  }
+}
@@ -6,8 +6,8 @@ export interface GitHubNotification {
   last_read_at: string | null;
   subject: {
     title: string;
-    url: string;
-    latest_comment_url: string;
+    url: string | null; // null for CheckSuite notifications
+    latest_comment_url: string | null;
     type: string; // Allow any string type from GitHub API
   };
   repository: {
@@ -24,13 +24,25 @@ export interface GitHubNotification {
   // Note: The notification ID is actually the thread ID for marking as done
 }
 
+export interface NotificationPoll {
+  notModified: boolean; // true when nothing changed since the previous poll
+  notifications: GitHubNotification[];
+  lastModified: string | null; // Send as If-Modified-Since on the next poll
+  pollInterval: number; // Seconds GitHub asks us to wait (X-Poll-Interval)
+}
+
 export interface PullRequestDetails {
   id: number;
   number: number;
   state: "open" | "closed";
+  draft?: boolean;
   merged: boolean;
   merged_at: string | null;
   closed_at: string | null;
+  updated_at: string;
+  head: {
+    sha: string;
+  };
   user: {
     type: "User" | "Bot";
     login: string;
@@ -42,14 +54,120 @@ export interface PullRequestDetails {
   }>;
   requested_teams: Array<{
     name: string;
+    slug: string;
+    id: number;
+  }>;
+  assignees: Array<{
+    login: string;
     id: number;
   }>;
+  // Requested teams always belong to the org that owns the repository
+  base: {
+    repo: {
+      owner: {
+        login: string;
+      };
+    };
+  };
+}
+
+// A submitted review; commit_id is the head commit it was given on
+export interface PullRequestReview {
+  id: number;
+  user: {
+    login: string;
+  } | null;
+  state:
+    | "APPROVED"
+    | "CHANGES_REQUESTED"
+    | "COMMENTED"
+    | "DISMISSED"
+    | "PENDING";
+  commit_id: string | null;
+  submitted_at?: string;
+}
+
+export interface IssueDetails {
+  id: number;
+  number: number;
+  state: "open" | "closed";
+  state_reason: "completed" | "not_planned" | "reopened" | null;
+  closed_at: string | null;
+  body: string | null;
+  user: {
+    type: "User" | "Bot";
+    login: string;
+    id: number;
+  };
   assignees: Array<{
     login: string;
     id: number;
   }>;
 }
 
+export interface ReleaseDetails {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
+  author: {
+    login: string;
+    id: number;
+  };
+}
+
+export interface DiscussionDetails {
+  number: number;
+  title: string;
+  closed: boolean;
+  locked: boolean;
+  isAnswered: boolean;
+  author: {
+    login: string;
+  } | null;
+}
+
+export interface WorkflowRunSummary {
+  id: number;
+  name: string | null;
+  head_branch: string | null;
+  status: string | null;
+  conclusion: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// CheckSuite notifications have no subject URL, so the workflow and branch
+// are parsed from the title ("CI workflow run failed for main branch")
+export interface CheckSuiteDetails {
+  workflowName: string;
+  branch: string;
+  conclusion: string;
+  latestRun: WorkflowRunSummary | null;
+}
+
+// Details fetched for the notification's subject, depending on its type
+export interface SubjectDetails {
+  pullRequest?: PullRequestDetails;
+  // Only fetched for open PRs when a rule needs them
+  pullRequestReviews?: PullRequestReview[];
+  issue?: IssueDetails;
+  release?: ReleaseDetails;
+  discussion?: DiscussionDetails;
+  checkSuite?: CheckSuiteDetails;
+}
+
+// A parent team and, through its own parent, the rest of the ancestors.
+// Parents are always in the same organization as the child team.
+export interface GitHubTeamParent {
+  id: number;
+  name: string;
+  slug: string;
+  parent: GitHubTeamParent | null;
+}
+
 export interface GitHubTeam {
   id: number;
   name: string;
@@ -58,15 +176,74 @@ export interface GitHubTeam {
     login: string;
     id: number;
   };
+  parent?: GitHubTeamParent | null; // Missing in caches from older versions
+}
+
+// The user's explicit subscription to a thread
+export interface ThreadSubscription {
+  subscribed: boolean;
+  ignored: boolean; // Muted
+}
+
+// An organization whose team memberships couldn't be checked, e.g. because
+// the token has no access to it
+export interface UncheckedOrg {
+  org: string;
+  reason: string;
+}
+
+// How review requests to a team are treated. owner: they are the user's to
+// act on; interested: they only count where a rule opts in to team requests;
+// ignore: umbrella teams whose requests are noise
+export type TeamPolicy = "owner" | "interested" | "ignore";
+
+// What a rule does with the threads it matches. "unsubscribe" stops updates
+// but leaves the thread in the inbox, "mute" ignores all future activity.
+export type ThreadAction =
+  | "done"
+  | "read"
+  | "unsubscribe"
+  | "unsubscribe+done"
+  | "mute";
+
+// "none" means the rule doesn't apply to the thread; the reasons say why.
+// "keep" vetoes every "done" verdict for the thread.
+export type VerdictAction = "done" | "keep" | "none";
+
+export interface FilterVerdict {
+  rule: string;
+  action: VerdictAction;
+  reasons: string[];
+  // What a "done" verdict does with the thread (default: mark it as done)
+  threadAction?: ThreadAction;
 }
 
 export interface NotificationFilter {
-  shouldMarkAsDone(
+  readonly name: string;
+  evaluate(
     notification: GitHubNotification,
-    prDetails?: PullRequestDetails
-  ): boolean;
+    details: SubjectDetails
+  ): FilterVerdict;
+}
+
+// The outcome for a thread once every rule has been evaluated
+export interface ThreadDecision {
+  action: "done" | "keep";
+  rule: string | null; // The rule that decided, null when none matched
+  threadAction: ThreadAction | null; // null when the thread is kept
+  reasons: string[];
+  verdicts: FilterVerdict[];
+}
+
+export interface EvaluatedThread {
+  notification: GitHubNotification;
+  details: SubjectDetails;
+  decision: ThreadDecision;
 }
 
+// What the triage command can do with a thread the rules kept
+export type TriageAction = "done" | "read" | "unsubscribe";
+
 export interface Logger {
   info(message: string, ...args: any[]): void;
   warn(message: string, ...args: any[]): void;
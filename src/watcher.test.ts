@@ -0,0 +1,151 @@
+import { NotificationProcessor } from "./notification-processor";
+import { ActionLimitError, SafetyError } from "./safety";
+import { GitHubNotification, Logger, NotificationPoll } from "./types";
+import { NotificationWatcher } from "./watcher";
+
+const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
+
+function notification(id: string, updatedAt: string): GitHubNotification {
+  return {
+    id,
+    unread: true,
+    reason: "subscribed",
+    updated_at: updatedAt,
+    last_read_at: null,
+    subject: {
+      title: `Thread ${id}`,
+      url: `https://api.github.com/repos/org/repo/pulls/${id}`,
+      latest_comment_url: null,
+      type: "PullRequest",
+    },
+    repository: {
+      id: 1,
+      name: "repo",
+      full_name: "org/repo",
+      owner: { login: "org", id: 1 },
+    },
+    url: `https://api.github.com/notifications/threads/${id}`,
+    subscription_url: `https://api.github.com/notifications/threads/${id}/subscription`,
+  };
+}
+
+// Answers polls like GitHub: 304 when If-Modified-Since matches
+function fakeProcessor(
+  notifications: GitHubNotification[],
+  processThreads: (threads: GitHubNotification[]) => Promise<unknown>,
+  onPoll: (count: number) => void = () => undefined
+) {
+  const polls: Array<string | null> = [];
+  const processor = {
+    pollNotifications: async (
+      lastModified: string | null
+    ): Promise<NotificationPoll> => {
+      polls.push(lastModified);
+      onPoll(polls.length);
+      return lastModified === "etag-1"
+        ? {
+            notModified: true,
+            notifications: [],
+            lastModified,
+            pollInterval: 0,
+          }
+        : {
+            notModified: false,
+            notifications,
+            lastModified: "etag-1",
+            pollInterval: 0,
+          };
+    },
+    retryIncompleteTeams: async () => undefined,
+    processThreads,
+  };
+  return { processor: processor as unknown as NotificationProcessor, polls };
+}
+
+describe("NotificationWatcher", () => {
+  it("processes the threads of a failed cycle again", async () => {
+    const threads = [notification("1", "2024-01-01T00:00:00Z")];
+    const processed: string[][] = [];
+    let watcher: NotificationWatcher | null = null;
+
+    const { processor, polls } = fakeProcessor(threads, async (changed) => {
+      processed.push(changed.map((thread) => thread.id));
+      if (processed.length === 1) {
+        throw new Error("Rate limit exceeded");
+      }
+      watcher?.stop();
+    });
+    watcher = new NotificationWatcher(processor, logger, {
+      minIntervalSeconds: 0,
+    });
+
+    await watcher.run();
+
+    expect(processed).toEqual([["1"], ["1"]]);
+    expect(polls).toEqual([null, null]);
+  });
+
+  it("skips unchanged threads after a successful cycle", async () => {
+    const threads = [notification("1", "2024-01-01T00:00:00Z")];
+    let processedCount = 0;
+    let watcher: NotificationWatcher | null = null;
+
+    const { processor, polls } = fakeProcessor(
+      threads,
+      async () => {
+        processedCount++;
+      },
+      (count) => {
+        if (count === 3) {
+          watcher?.stop();
+        }
+      }
+    );
+    watcher = new NotificationWatcher(processor, logger, {
+      minIntervalSeconds: 0,
+    });
+
+    await watcher.run();
+
+    expect(processedCount).toBe(1);
+    expect(polls).toEqual([null, "etag-1", "etag-1"]);
+  });
+
+  it("retries cycles whose teams could not be loaded", async () => {
+    const threads = [notification("1", "2024-01-01T00:00:00Z")];
+    let attempts = 0;
+    let watcher: NotificationWatcher | null = null;
+
+    const { processor } = fakeProcessor(threads, async () => {
+      attempts++;
+      if (attempts === 1) {
+        throw new SafetyError("Failed to load teams for user octocat");
+      }
+      watcher?.stop();
+    });
+    watcher = new NotificationWatcher(processor, logger, {
+      minIntervalSeconds: 0,
+    });
+
+    await watcher.run();
+
+    expect(attempts).toBe(2);
+  });
+
+  it("stops when a cycle exceeds the action limits", async () => {
+    const threads = [notification("1", "2024-01-01T00:00:00Z")];
+    const { processor } = fakeProcessor(threads, async () => {
+      throw new ActionLimitError("60 threads would be acted on");
+    });
+    const watcher = new NotificationWatcher(processor, logger, {
+      minIntervalSeconds: 0,
+    });
+
+    await expect(watcher.run()).rejects.toThrow(ActionLimitError);
+  });
+});
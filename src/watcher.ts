@@ -0,0 +1,143 @@
+import { NotificationProcessor } from "./notification-processor";
+import { ActionLimitError } from "./safety";
+import { GitHubNotification, Logger } from "./types";
+
+export interface WatchOptions {
+  // Lower bound for the wait between polls, GitHub's X-Poll-Interval wins
+  // when it asks for longer
+  minIntervalSeconds: number;
+}
+
+export class NotificationWatcher {
+  private processor: NotificationProcessor;
+  private logger: Logger;
+  private options: WatchOptions;
+  private lastModified: string | null = null;
+  private seenUpdates = new Map<string, string>(); // thread ID -> updated_at
+  private stopping = false;
+  private wakeUp: (() => void) | null = null;
+
+  constructor(
+    processor: NotificationProcessor,
+    logger: Logger,
+    options: WatchOptions
+  ) {
+    this.processor = processor;
+    this.logger = logger;
+    this.options = options;
+  }
+
+  async run(): Promise<void> {
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (this.stopping) {
+        this.logger.warn(`Received ${signal} again, exiting immediately`);
+        process.exit(130);
+      }
+      this.logger.info(
+        `Received ${signal}, stopping after the current cycle...`
+      );
+      this.stop();
+    };
+    process.on("SIGINT", onSignal);
+    process.on("SIGTERM", onSignal);
+
+    this.logger.info("Watching for new threads (press Ctrl+C to stop)");
+
+    try {
+      while (!this.stopping) {
+        let pollInterval = this.options.minIntervalSeconds;
+        try {
+          pollInterval = Math.max(pollInterval, await this.runCycle());
+        } catch (error) {
+          // The same threads would exceed the limits again on every cycle,
+          // and there is nobody to confirm them
+          if (error instanceof ActionLimitError) {
+            throw error;
+          }
+          // Anything else, such as a rate limit or teams that couldn't be
+          // loaded, leaves the threads pending for the next cycle
+          this.logger.error("Watch cycle failed, retrying later:", error);
+        }
+
+        if (!this.stopping) {
+          this.logger.debug(`Next poll in ${pollInterval} seconds`);
+          await this.sleep(pollInterval * 1000);
+        }
+      }
+    } finally {
+      process.off("SIGINT", onSignal);
+      process.off("SIGTERM", onSignal);
+    }
+
+    this.logger.info("Stopped watching");
+  }
+
+  stop(): void {
+    this.stopping = true;
+    this.wakeUp?.();
+  }
+
+  // Returns the poll interval GitHub asked for
+  private async runCycle(): Promise<number> {
+    const poll = await this.processor.pollNotifications(this.lastModified);
+
+    if (poll.notModified) {
+      this.logger.debug("No changes since the last poll");
+      return poll.pollInterval;
+    }
+
+    const changed = this.findChangedThreads(poll.notifications);
+
+    if (changed.length === 0) {
+      this.logger.debug("No threads were updated since the last poll");
+      this.markSeen(poll.notifications, poll.lastModified);
+      return poll.pollInterval;
+    }
+
+    this.logger.info(`${changed.length} threads changed since the last poll`);
+    await this.processor.retryIncompleteTeams();
+    await this.processor.processThreads(changed);
+    // Only after processing succeeded, so a failed cycle's threads are
+    // picked up again by the next one
+    this.markSeen(poll.notifications, poll.lastModified);
+    return poll.pollInterval;
+  }
+
+  // Threads whose updated_at differs from the last processed cycle
+  private findChangedThreads(
+    notifications: GitHubNotification[]
+  ): GitHubNotification[] {
+    return notifications.filter(
+      (notification) =>
+        this.seenUpdates.get(notification.id) !== notification.updated_at
+    );
+  }
+
+  // Threads that are no longer unread are forgotten so they are processed
+  // again if they return
+  private markSeen(
+    notifications: GitHubNotification[],
+    lastModified: string | null
+  ): void {
+    this.seenUpdates = new Map(
+      notifications.map((notification) => [
+        notification.id,
+        notification.updated_at,
+      ])
+    );
+    this.lastModified = lastModified;
+  }
+
+  // Resolves early when stop() is called
+  private sleep(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    }).finally(() => {
+      this.wakeUp = null;
+    });
+  }
+}